@@ -1,6 +1,6 @@
 import { bench, describe } from 'vitest';
 
-import { ProfanityBuster, type ProfanityBusterUserConfig } from '../src';
+import { ProfanityBuster, type MatcherAlgorithm, type ProfanityBusterUserConfig } from '../src';
 
 function generateText(repetitions: number): string {
   const base =
@@ -9,7 +9,7 @@ function generateText(repetitions: number): string {
   return base.repeat(repetitions);
 }
 
-function makeConfig(algorithm: 'aho' | 'trie'): ProfanityBusterUserConfig {
+function makeConfig(algorithm: MatcherAlgorithm): ProfanityBusterUserConfig {
   return {
     languages: { enabled: ['en'], autoDetect: false, fallback: 'en' },
     detection: {
@@ -32,6 +32,7 @@ describe('Algorithm comparison: Aho–Corasick vs Trie', () => {
 
   const busterAho = new ProfanityBuster(makeConfig('aho'));
   const busterTrie = new ProfanityBuster(makeConfig('trie'));
+  const busterCompact = new ProfanityBuster(makeConfig('compact'));
 
   bench('aho small', () => {
     busterAho.detect(small);
@@ -41,6 +42,10 @@ describe('Algorithm comparison: Aho–Corasick vs Trie', () => {
     busterTrie.detect(small);
   });
 
+  bench('compact small', () => {
+    busterCompact.detect(small);
+  });
+
   bench('aho medium', () => {
     busterAho.detect(medium);
   });
@@ -49,6 +54,10 @@ describe('Algorithm comparison: Aho–Corasick vs Trie', () => {
     busterTrie.detect(medium);
   });
 
+  bench('compact medium', () => {
+    busterCompact.detect(medium);
+  });
+
   bench('aho large', () => {
     busterAho.detect(large);
   });
@@ -56,4 +65,8 @@ describe('Algorithm comparison: Aho–Corasick vs Trie', () => {
   bench('trie large', () => {
     busterTrie.detect(large);
   });
+
+  bench('compact large', () => {
+    busterCompact.detect(large);
+  });
 });
@@ -1,6 +1,11 @@
 import { bench, describe } from 'vitest';
 
-import { ProfanityBuster, type ProfanityBusterUserConfig } from '../src';
+import {
+  ProfanityBuster,
+  type DetectionSettings,
+  type MatcherAlgorithm,
+  type ProfanityBusterUserConfig,
+} from '../src';
 
 function generateText(repetitions: number): string {
   const base =
@@ -28,7 +33,11 @@ function synthesizeWordlist(size: number): string[] {
   return words;
 }
 
-function makeConfig(algorithm: 'aho' | 'trie', customWords: string[]): ProfanityBusterUserConfig {
+function makeConfig(
+  algorithm: MatcherAlgorithm,
+  customWords: string[],
+  overrides: Partial<DetectionSettings> = {},
+): ProfanityBusterUserConfig {
   return {
     languages: { enabled: ['en'], autoDetect: false, fallback: 'en' },
     detection: {
@@ -40,6 +49,7 @@ function makeConfig(algorithm: 'aho' | 'trie', customWords: string[]): Profanity
       wholeWordsOnly: false,
       customWords,
       enableInflections: false,
+      ...overrides,
     },
   };
 }
@@ -54,6 +64,11 @@ describe('Large wordlist scaling (synthetic)', () => {
   const trie10k = new ProfanityBuster(makeConfig('trie', dict10k));
   const aho100k = new ProfanityBuster(makeConfig('aho', dict100k));
   const trie100k = new ProfanityBuster(makeConfig('trie', dict100k));
+  const compact100k = new ProfanityBuster(makeConfig('compact', dict100k));
+  // Fuzzy stage over the indexed dictionary (exhaustive so it runs despite exact hits)
+  const fuzzy100k = new ProfanityBuster(
+    makeConfig('aho', dict100k, { levenshteinDistance: 2, mode: 'exhaustive' }),
+  );
 
   bench('aho dict10k medium', () => {
     aho10k.detect(mediumText);
@@ -70,4 +85,36 @@ describe('Large wordlist scaling (synthetic)', () => {
   bench('trie dict100k medium', () => {
     trie100k.detect(mediumText);
   });
+
+  bench('compact dict100k medium', () => {
+    compact100k.detect(mediumText);
+  });
+
+  bench('fuzzy (distance 2) dict100k medium', () => {
+    fuzzy100k.detect(mediumText);
+  });
+});
+
+describe('Cold start (synthetic dict100k)', () => {
+  const dict100k = synthesizeWordlist(100_000);
+
+  // Normalizing the entries is shared; the rest is building the matcher
+  for (const algorithm of ['trie', 'aho', 'compact'] as const) {
+    bench(
+      `construct ${algorithm}`,
+      () => {
+        new ProfanityBuster(makeConfig(algorithm, dict100k));
+      },
+      { iterations: 3, time: 0 },
+    );
+
+    const snapshot = new ProfanityBuster(makeConfig(algorithm, dict100k)).exportCompiled();
+    bench(
+      `restore ${algorithm} (fromCompiled)`,
+      () => {
+        ProfanityBuster.fromCompiled(snapshot, makeConfig(algorithm, dict100k));
+      },
+      { iterations: 3, time: 0 },
+    );
+  }
 });
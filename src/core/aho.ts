@@ -1,63 +1,121 @@
+import { fitsBoundary, isOwnSpacing, type BoundaryMode, type PatternOptions } from './entries';
+import type { ConfusableBranching } from './normalization';
+import type { SeparatorPolicy } from './separators';
+import type { SnapshotReader, SnapshotWriter } from './snapshot';
+import { codePointAt } from './unicode';
+
 export interface AhoMatch {
   index: number;
   length: number;
+  term: string; // dictionary term attached to the matched pattern
+  language?: string; // pack the pattern was inserted for
+}
+
+export interface AhoOutput {
+  length: number; // in code points
+  term: string;
+  boundary?: BoundaryMode; // unset: the wholeWordsOnly of the search
+  gaps?: readonly number[]; // see PatternOptions
+  language?: string;
+}
+
+/**
+ * A built automaton as the scanners use it: `AhoCorasick`, or the typed-array
+ * `CompactAutomaton` (see `core/compact.ts`).
+ */
+export interface Automaton {
+  next(state: number, ch: string): number;
+  outputsAt(state: number): readonly AhoOutput[];
+  depthOf(state: number): number;
+  writeTo(writer: SnapshotWriter): void;
+  findAllMatches(
+    text: string,
+    wholeWordsOnly: boolean,
+    separators?: SeparatorPolicy,
+    branching?: ConfusableBranching,
+  ): AhoMatch[];
 }
 
 interface AhoNode {
   children: Map<string, number>;
   fail: number;
-  terminalLengths: number[]; // lengths of patterns that end at this node
+  depth: number; // code points from the root
+  own: AhoOutput[]; // patterns that end at this node
+  outputs: AhoOutput[]; // own plus those inherited through failure links (set by build)
 }
 
-const WORD_CHAR = /[\p{L}\p{N}_]/u;
-
 /**
  * Aho–Corasick automaton for multi-pattern exact matching with optional
  * whole-word boundary checks and separator skipping.
  *
- * Note: When separatorsToIgnore is provided, we map the input text to a
+ * Note: When separators are provided, we map the input text to a
  * compacted version (with separators removed) and map match spans back to
- * original indices so the returned spans include separators within them.
+ * original indices so the returned spans include separators within them;
+ * spans crossing a gap the `SeparatorPolicy` rejects are dropped.
+ * Patterns and text are walked by code point; returned offsets and lengths
+ * are in UTF-16 code units. With `branching`, the scan follows a small set of
+ * states, one per reading of the ambiguous look-alikes seen so far.
+ *
+ * Outputs carry the language they were inserted for, so one automaton can
+ * serve several packs: `removeOutputs` drops a pack without touching the rest,
+ * and `build` may be called again after inserting another one. A changed
+ * automaton is rebuilt once, when it is next scanned or written, so a burst of
+ * changes costs one `build`.
  */
-export class AhoCorasick {
-  private readonly nodes: AhoNode[] = [];
+export class AhoCorasick implements Automaton {
+  private nodes: AhoNode[] = [];
+  private stale = false; // patterns changed since the last build
 
   constructor() {
-    this.nodes.push({ children: new Map(), fail: 0, terminalLengths: [] }); // root
+    this.nodes.push({ children: new Map(), fail: 0, depth: 0, own: [], outputs: [] }); // root
   }
 
-  insert(word: string): void {
+  insert(word: string, term: string = word, options: PatternOptions = {}): void {
     if (!word) return;
     let nodeIndex = 0;
+    let codePoints = 0;
     for (const ch of word) {
+      codePoints += 1;
       const node = this.nodes[nodeIndex];
       let nextIndex = node.children.get(ch);
       if (nextIndex === undefined) {
         nextIndex = this.nodes.length;
         node.children.set(ch, nextIndex);
-        this.nodes.push({ children: new Map(), fail: 0, terminalLengths: [] });
+        this.nodes.push({ children: new Map(), fail: 0, depth: codePoints, own: [], outputs: [] });
       }
       nodeIndex = nextIndex;
     }
-    this.nodes[nodeIndex].terminalLengths.push(word.length);
+    this.nodes[nodeIndex].own.push({ length: codePoints, term, ...options });
+    this.stale = true;
   }
 
   insertAll(words: Iterable<string>): void {
     for (const w of words) this.insert(w);
   }
 
+  /**
+   * Computes failure links and inherited outputs. Nodes left with no patterns
+   * and no children by `removeOutputs` are dropped first, which renumbers the
+   * states.
+   */
   build(): void {
+    this.stale = false;
+    this.prune();
+
     // Build failure links using BFS
+    // Indexed queue: shift() would make this quadratic on large dictionaries
     const queue: number[] = [];
+    let head = 0;
 
     // Initialize depth-1 fail links to root
     for (const [, childIndex] of this.nodes[0].children) {
       this.nodes[childIndex].fail = 0;
+      this.nodes[childIndex].outputs = [...this.nodes[childIndex].own];
       queue.push(childIndex);
     }
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
+    while (head < queue.length) {
+      const current = queue[head++];
       for (const [ch, nextIndex] of this.nodes[current].children) {
         queue.push(nextIndex);
 
@@ -70,82 +128,247 @@ export class AhoCorasick {
           f = this.nodes[f].children.get(ch)!;
         }
         this.nodes[nextIndex].fail = f;
-        // Inherit terminal outputs
-        const inherited = this.nodes[f].terminalLengths;
-        if (inherited.length > 0) {
-          this.nodes[nextIndex].terminalLengths.push(...inherited);
-        }
+        // Inherit terminal outputs (the fail node is shallower, so already done)
+        this.nodes[nextIndex].outputs = [...this.nodes[nextIndex].own, ...this.nodes[f].outputs];
+      }
+    }
+  }
+
+  /**
+   * Writes the built automaton: child ranges, code-point labels, targets,
+   * failure links and depths as `Uint32Array`s, own outputs as JSON.
+   * `readFrom` restores it without rebuilding.
+   */
+  writeTo(writer: SnapshotWriter): void {
+    if (this.stale) this.build();
+    const childStarts = new Uint32Array(this.nodes.length + 1);
+    const labels: number[] = [];
+    const targets: number[] = [];
+    const own: [number, AhoOutput][] = [];
+    this.nodes.forEach((node, index) => {
+      for (const [ch, child] of node.children) {
+        labels.push(ch.codePointAt(0)!);
+        targets.push(child);
+      }
+      childStarts[index + 1] = labels.length;
+      for (const output of node.own) own.push([index, output]);
+    });
+    writer.u32(childStarts);
+    writer.u32(Uint32Array.from(labels));
+    writer.u32(Uint32Array.from(targets));
+    writer.u32(Uint32Array.from(this.nodes, (node) => node.fail));
+    writer.u32(Uint32Array.from(this.nodes, (node) => node.depth));
+    writer.json(own);
+  }
+
+  static readFrom(reader: SnapshotReader): AhoCorasick {
+    const childStarts = reader.u32();
+    const labels = reader.u32();
+    const targets = reader.u32();
+    const fail = reader.u32();
+    const depth = reader.u32();
+    const own = reader.json<[number, AhoOutput][]>();
+    const automaton = new AhoCorasick();
+    automaton.nodes = Array.from(fail, (f, index) => {
+      const children = new Map<string, number>();
+      for (let c = childStarts[index]; c < childStarts[index + 1]; c++) {
+        children.set(String.fromCodePoint(labels[c]), targets[c]);
       }
+      return { children, fail: f, depth: depth[index], own: [], outputs: [] };
+    });
+    for (const [index, output] of own) automaton.nodes[index].own.push(output);
+    // Inherited outputs, in BFS order so a node's fail target is always done first
+    const queue = [0];
+    for (let head = 0; head < queue.length; head++) {
+      const node = automaton.nodes[queue[head]];
+      if (queue[head] !== 0) node.outputs = [...node.own, ...automaton.nodes[node.fail].outputs];
+      for (const child of node.children.values()) queue.push(child);
     }
+    return automaton;
+  }
+
+  /** Drops the patterns inserted for `language`; the next scan rebuilds the automaton. */
+  removeOutputs(language: string): void {
+    for (const node of this.nodes) {
+      if (!node.own.some((o) => o.language === language)) continue;
+      node.own = node.own.filter((o) => o.language !== language);
+      this.stale = true;
+    }
+  }
+
+  /**
+   * Advances the automaton from `state` by one code point, following failure
+   * links. Together with `outputsAt` and `depthOf` this lets callers scan
+   * text incrementally (see `core/stream.ts`). State 0 is the root.
+   */
+  next(state: number, ch: string): number {
+    if (this.stale) this.build();
+    while (state !== 0 && !this.nodes[state].children.has(ch)) {
+      state = this.nodes[state].fail;
+    }
+    return this.nodes[state].children.get(ch) ?? 0;
+  }
+
+  /** Patterns ending at `state`, including those inherited through failure links. */
+  outputsAt(state: number): readonly AhoOutput[] {
+    return this.nodes[state].outputs;
+  }
+
+  /**
+   * Length in code points of the pattern prefix `state` represents. Any match
+   * completed later must start within these last `depthOf(state)` code points.
+   */
+  depthOf(state: number): number {
+    return this.nodes[state].depth;
   }
 
   findAllMatches(
     text: string,
     wholeWordsOnly: boolean,
-    separatorsToIgnore?: Set<string>,
+    separators?: SeparatorPolicy,
+    branching?: ConfusableBranching,
   ): AhoMatch[] {
-    const results: AhoMatch[] = [];
-    const useIgnore = !!separatorsToIgnore && separatorsToIgnore.size > 0;
-
-    let scanText: string;
-    let toOriginalIndex: number[] | null = null;
-
-    if (useIgnore) {
-      const compactChars: string[] = [];
-      const indexMap: number[] = [];
-      for (let i = 0; i < text.length; i++) {
-        const ch = text[i];
-        if (separatorsToIgnore!.has(ch)) continue;
-        compactChars.push(ch);
-        indexMap.push(i);
+    return scanAutomaton(this, text, wholeWordsOnly, separators, branching);
+  }
+
+  // Removes branches that end in no pattern, renumbering the other nodes in BFS order
+  private prune(): void {
+    const order = [0];
+    const parents = [-1];
+    const labels = [''];
+    for (let head = 0; head < order.length; head++) {
+      for (const [ch, child] of this.nodes[order[head]].children) {
+        order.push(child);
+        parents.push(order[head]);
+        labels.push(ch);
       }
-      scanText = compactChars.join('');
-      toOriginalIndex = indexMap;
-    } else {
-      scanText = text;
     }
+    // Backwards in BFS order children come before their parent, so whole branches go
+    const dead = new Uint8Array(this.nodes.length);
+    let dropped = 0;
+    for (let k = order.length - 1; k > 0; k--) {
+      const node = this.nodes[order[k]];
+      if (node.own.length > 0 || node.children.size > 0) continue;
+      this.nodes[parents[k]].children.delete(labels[k]);
+      dead[order[k]] = 1;
+      dropped += 1;
+    }
+    if (dropped === 0) return;
+
+    const renumbered = new Map<number, number>();
+    const nodes: AhoNode[] = [];
+    for (const index of order) {
+      if (dead[index]) continue;
+      renumbered.set(index, nodes.length);
+      nodes.push(this.nodes[index]);
+    }
+    for (const node of nodes) {
+      for (const [ch, child] of node.children) node.children.set(ch, renumbered.get(child)!);
+    }
+    this.nodes = nodes;
+  }
+}
+
+/**
+ * `findAllMatches` of any `Automaton`: scans `text` with the separator,
+ * boundary and branching rules described on `AhoCorasick`.
+ */
+export function scanAutomaton(
+  automaton: Automaton,
+  text: string,
+  wholeWordsOnly: boolean,
+  separators?: SeparatorPolicy,
+  branching?: ConfusableBranching,
+): AhoMatch[] {
+  const results: AhoMatch[] = [];
+  const defaultBoundary: BoundaryMode = wholeWordsOnly ? 'whole' : 'substring';
+  const useIgnore = !!separators && !separators.isEmpty;
+
+  // Scan code point by code point (matching insert()), remembering where each
+  // kept code point starts in the original text
+  const chars: string[] = [];
+  const starts: number[] = [];
+  const gaps: number[] = []; // separator runs skipped before each kept code point
+  let gapCount = 0;
+  for (let i = 0; i < text.length; ) {
+    const ch = codePointAt(text, i);
+    if (!useIgnore || !separators!.has(ch)) {
+      if (starts.length > 0 && starts[starts.length - 1] + chars[chars.length - 1].length < i) {
+        gapCount += 1;
+      }
+      chars.push(ch);
+      starts.push(i);
+      gaps.push(gapCount);
+    }
+    i += ch.length;
+  }
 
-    let state = 0;
-    for (let i = 0; i < scanText.length; i++) {
-      const ch = scanText[i];
-      // Follow fail links until a transition exists or at root
-      while (state !== 0 && !this.nodes[state].children.has(ch)) {
-        state = this.nodes[state].fail;
+  const states = [0];
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const alternatives = branching?.alternatives.get(starts[i]);
+    if (!alternatives && states.length === 1) {
+      states[0] = automaton.next(states[0], ch);
+    } else {
+      const next: number[] = [];
+      const maxBranches = branching?.maxBranches ?? 1;
+      for (const state of states) {
+        for (const candidate of [ch, ...(alternatives ?? [])]) {
+          const reached = automaton.next(state, candidate);
+          if (next.length < maxBranches && !next.includes(reached)) next.push(reached);
+        }
       }
-      const next = this.nodes[state].children.get(ch);
-      if (next !== undefined) state = next;
-      else state = state; // remain at current (root will be 0)
-
-      const outputs = this.nodes[state].terminalLengths;
-      if (outputs.length > 0) {
-        for (const len of outputs) {
-          const endCompact = i;
-          const startCompact = endCompact - len + 1;
-          if (startCompact < 0) continue;
-
-          let startOriginal: number;
-          let endOriginal: number;
-          if (toOriginalIndex) {
-            startOriginal = toOriginalIndex[startCompact];
-            endOriginal = toOriginalIndex[endCompact];
-          } else {
-            startOriginal = startCompact;
-            endOriginal = endCompact;
-          }
-
-          if (wholeWordsOnly) {
-            const leftOk = startOriginal === 0 || !WORD_CHAR.test(text[startOriginal - 1]);
-            const rightOk =
-              endOriginal + 1 >= text.length || !WORD_CHAR.test(text[endOriginal + 1]);
-            if (!leftOk || !rightOk) continue;
-          }
-
-          const spanLength = endOriginal - startOriginal + 1;
-          results.push({ index: startOriginal, length: spanLength });
+      states.splice(0, states.length, ...next);
+    }
+
+    // Several readings may complete the same pattern
+    const seen = states.length > 1 ? new Set<string>() : undefined;
+    for (const state of states) {
+      for (const { length: len, term, boundary, gaps: own, language } of automaton.outputsAt(
+        state,
+      )) {
+        if (seen) {
+          const key = `${len}\u0000${term}\u0000${language}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
         }
+        const startCompact = i - len + 1;
+        if (startCompact < 0) continue;
+
+        // Spans include any skipped separators between the first and last code point
+        const startOriginal = starts[startCompact];
+        const endOriginal = starts[i] + ch.length; // exclusive
+
+        if (!fitsBoundary(boundary ?? defaultBoundary, text, startOriginal, endOriginal)) {
+          continue;
+        }
+
+        if (
+          gaps[i] !== gaps[startCompact] &&
+          !isOwnSpacing(own, gapOffsets(gaps, startCompact, i)) &&
+          !separators!.allows(text, startOriginal, endOriginal)
+        ) {
+          continue;
+        }
+
+        results.push({
+          index: startOriginal,
+          length: endOriginal - startOriginal,
+          term,
+          language,
+        });
       }
     }
+  }
+
+  return results;
+}
 
-    return results;
+// Offsets (from `start`) of the code points in `start..end` that follow a gap
+function gapOffsets(gaps: readonly number[], start: number, end: number): number[] {
+  const offsets: number[] = [];
+  for (let k = start + 1; k <= end; k++) {
+    if (gaps[k] !== gaps[k - 1]) offsets.push(k - start);
   }
+  return offsets;
 }
@@ -0,0 +1,175 @@
+import { AhoCorasick } from './aho';
+import { isWordChar, tokenize, WORD_CHAR_CLASS } from './unicode';
+
+export type AllowlistEntry = string | RegExp;
+
+interface Span {
+  start: number;
+  endExclusive: number;
+}
+
+/**
+ * Result of scanning a text against an allowlist. Holds the spans of every
+ * allowlisted occurrence so matches can be tested for containment.
+ */
+export class AllowlistScan {
+  constructor(private readonly spans: Span[]) {}
+
+  /** True when [index, index + length) lies entirely inside an allowlisted span. */
+  covers(index: number, length: number): boolean {
+    const end = index + length;
+    for (const span of this.spans) {
+      if (span.start <= index && end <= span.endExclusive) return true;
+    }
+    return false;
+  }
+}
+
+const EMPTY_SCAN = new AllowlistScan([]);
+
+/**
+ * Words and patterns that suppress false positives such as "ass" in "classic".
+ *
+ * - Plain strings are located anywhere in the (normalized) text with an
+ *   Aho–Corasick automaton, so "assassin" also protects "assassins".
+ * - Strings containing `*` are wildcards matched against whole tokens
+ *   (e.g. `class*` allows "classic" and "classy").
+ * - RegExps are tested against each whole token.
+ */
+export class Allowlist {
+  private readonly automaton = new AhoCorasick();
+  private readonly tokenPatterns: RegExp[] = [];
+  private wordCount = 0;
+
+  constructor(entries: Iterable<AllowlistEntry>, normalize: (word: string) => string) {
+    for (const entry of entries) {
+      if (entry instanceof RegExp) {
+        this.tokenPatterns.push(entry);
+      } else if (entry.includes('*')) {
+        this.tokenPatterns.push(wildcardToRegExp(normalize(entry)));
+      } else {
+        const word = normalize(entry);
+        if (!word) continue;
+        this.automaton.insert(word);
+        this.wordCount += 1;
+      }
+    }
+    this.automaton.build();
+  }
+
+  get isEmpty(): boolean {
+    return this.wordCount === 0 && this.tokenPatterns.length === 0;
+  }
+
+  scan(text: string): AllowlistScan {
+    if (this.isEmpty) return EMPTY_SCAN;
+    const spans: Span[] = [];
+    if (this.wordCount > 0) {
+      for (const m of this.automaton.findAllMatches(text, false)) {
+        spans.push({ start: m.index, endExclusive: m.index + m.length });
+      }
+    }
+    if (this.tokenPatterns.length > 0) {
+      for (const token of tokenize(text)) {
+        if (this.tokenPatterns.some((p) => testWhole(p, token.value))) {
+          spans.push({ start: token.start, endExclusive: token.endExclusive });
+        }
+      }
+    }
+    return new AllowlistScan(spans);
+  }
+
+  createStreamScanner(): AllowlistStreamScanner {
+    return new AllowlistStreamScanner(
+      this.wordCount > 0 ? this.automaton : undefined,
+      this.tokenPatterns,
+    );
+  }
+}
+
+/**
+ * Incremental counterpart of `Allowlist.scan` used by the streaming sanitizer.
+ * Fed one normalized code point at a time together with the source span it
+ * came from; spans are reported in source offsets.
+ */
+export class AllowlistStreamScanner {
+  private state = 0;
+  private window: Span[] = []; // source spans of the automaton's current prefix
+  private spans: Span[] = [];
+  private token = '';
+  private tokenStart = -1;
+  private tokenEnd = -1;
+
+  constructor(
+    private readonly automaton: AhoCorasick | undefined,
+    private readonly tokenPatterns: RegExp[],
+  ) {}
+
+  push(ch: string, start: number, end: number): void {
+    if (this.automaton) {
+      this.state = this.automaton.next(this.state, ch);
+      this.window.push({ start, endExclusive: end });
+      for (const { length } of this.automaton.outputsAt(this.state)) {
+        const first = this.window[this.window.length - length];
+        this.spans.push({ start: first.start, endExclusive: end });
+      }
+      const depth = this.automaton.depthOf(this.state);
+      if (this.window.length > depth) this.window.splice(0, this.window.length - depth);
+    }
+    if (this.tokenPatterns.length === 0) return;
+    if (isWordChar(ch)) {
+      if (this.tokenStart < 0) this.tokenStart = start;
+      this.token += ch;
+      this.tokenEnd = end;
+    } else {
+      this.finishToken();
+    }
+  }
+
+  /** Closes the trailing token at the end of the stream. */
+  finish(): void {
+    this.finishToken();
+  }
+
+  /**
+   * Earliest source offset at which an allowlisted occurrence that has not
+   * completed yet could start, or Infinity when nothing is in progress.
+   */
+  liveStart(): number {
+    const pending = this.window.length > 0 ? this.window[0].start : Infinity;
+    return this.tokenStart >= 0 ? Math.min(pending, this.tokenStart) : pending;
+  }
+
+  covers(index: number, length: number): boolean {
+    return new AllowlistScan(this.spans).covers(index, length);
+  }
+
+  /** Forgets completed occurrences that end at or before `offset`. */
+  discardBefore(offset: number): void {
+    this.spans = this.spans.filter((span) => span.endExclusive > offset);
+  }
+
+  private finishToken(): void {
+    if (this.tokenStart < 0) return;
+    if (this.tokenPatterns.some((p) => testWhole(p, this.token))) {
+      this.spans.push({ start: this.tokenStart, endExclusive: this.tokenEnd });
+    }
+    this.token = '';
+    this.tokenStart = -1;
+    this.tokenEnd = -1;
+  }
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join(`${WORD_CHAR_CLASS}*`);
+  return new RegExp(`^${source}$`, 'u');
+}
+
+function testWhole(pattern: RegExp, token: string): boolean {
+  // Reset stateful (global/sticky) patterns so repeated scans behave the same
+  pattern.lastIndex = 0;
+  return pattern.test(token);
+}
@@ -0,0 +1,231 @@
+import { scanAutomaton, type AhoMatch, type AhoOutput, type Automaton } from './aho';
+import type { PatternOptions } from './entries';
+import type { ConfusableBranching } from './normalization';
+import type { SeparatorPolicy } from './separators';
+import type { SnapshotReader, SnapshotWriter } from './snapshot';
+
+// Edge keys of the builder: parent * CODE_POINTS + code point, exact below 2^53
+const CODE_POINTS = 0x110000;
+
+const NO_OUTPUTS: readonly AhoOutput[] = [];
+
+// Root transitions below this code point are a direct lookup; scans fall back to the root a lot
+const ROOT_TABLE_SIZE = 128;
+
+/**
+ * Aho–Corasick automaton stored in typed arrays, for large dictionaries where
+ * `AhoCorasick`'s object and `Map` per node dominate memory and build time.
+ *
+ * Patterns are collected with `insert`; `build` lays the trie out in CSR form:
+ * the transitions of state `s` are `labels`/`targets[offsets[s], offsets[s + 1])`,
+ * sorted by code point and found by binary search. Failure links and depths
+ * are one `Uint32Array` each, and the outputs of every state (own plus
+ * inherited) are a range of `outputIndexes` into one shared output table.
+ *
+ * Scanning behaves exactly like `AhoCorasick` (same `Automaton` surface). The
+ * automaton is immutable once built: a changed wordlist builds a new one.
+ */
+export class CompactAutomaton implements Automaton {
+  // Builder state, dropped by build()
+  private edges?: Map<number, number> = new Map();
+  private depths?: number[] = [0];
+  private terminals?: number[] = []; // state of each entry of `table`
+
+  private readonly table: AhoOutput[] = [];
+  private offsets: Uint32Array = new Uint32Array(1);
+  private labels: Uint32Array = new Uint32Array(0);
+  private targets: Uint32Array = new Uint32Array(0);
+  private fail: Uint32Array = new Uint32Array(1);
+  private depth: Uint32Array = new Uint32Array(1);
+  private outputStarts: Uint32Array = new Uint32Array(2);
+  private outputIndexes: Uint32Array = new Uint32Array(0);
+  private rootTable = new Int32Array(ROOT_TABLE_SIZE).fill(-1);
+
+  insert(word: string, term: string = word, options: PatternOptions = {}): void {
+    if (!this.edges || !this.depths || !this.terminals) {
+      throw new Error('CompactAutomaton: insert() after build()');
+    }
+    if (!word) return;
+    let state = 0;
+    let codePoints = 0;
+    for (const ch of word) {
+      codePoints += 1;
+      const key = state * CODE_POINTS + ch.codePointAt(0)!;
+      let next = this.edges.get(key);
+      if (next === undefined) {
+        next = this.depths.length;
+        this.edges.set(key, next);
+        this.depths.push(codePoints);
+      }
+      state = next;
+    }
+    this.table.push({ length: codePoints, term, ...options });
+    this.terminals.push(state);
+  }
+
+  insertAll(words: Iterable<string>): void {
+    for (const w of words) this.insert(w);
+  }
+
+  /** Lays out transitions, failure links and outputs. Further inserts throw. */
+  build(): void {
+    const { edges, depths, terminals } = this;
+    if (!edges || !depths || !terminals) return;
+    const count = depths.length;
+
+    // Sorted keys group transitions by parent, then by code point
+    const keys = Float64Array.from(edges.keys()).sort();
+    const offsets = new Uint32Array(count + 1);
+    const labels = new Uint32Array(keys.length);
+    const targets = new Uint32Array(keys.length);
+    keys.forEach((key, k) => {
+      offsets[Math.floor(key / CODE_POINTS) + 1] += 1;
+      labels[k] = key % CODE_POINTS;
+      targets[k] = edges.get(key)!;
+    });
+    for (let s = 0; s < count; s++) offsets[s + 1] += offsets[s];
+    this.offsets = offsets;
+    this.labels = labels;
+    this.targets = targets;
+    this.depth = Uint32Array.from(depths);
+    this.fillRootTable();
+
+    // Own outputs per state, as ranges of one index array
+    const own = new Uint32Array(count + 1);
+    for (const state of terminals) own[state + 1] += 1;
+    for (let s = 0; s < count; s++) own[s + 1] += own[s];
+    const ownIndexes = new Uint32Array(terminals.length);
+    const filled = own.slice(0, count);
+    terminals.forEach((state, index) => {
+      ownIndexes[filled[state]++] = index;
+    });
+
+    // Failure links in BFS order, so a state's fail target is always done first
+    const fail = new Uint32Array(count);
+    const order = new Uint32Array(count);
+    let tail = 1; // order[0] is the root
+    for (let head = 0; head < tail; head++) {
+      const state = order[head];
+      for (let k = offsets[state]; k < offsets[state + 1]; k++) {
+        const child = targets[k];
+        order[tail++] = child;
+        if (state === 0) continue;
+        let f = fail[state];
+        let link = this.child(f, labels[k]);
+        while (link < 0 && f !== 0) {
+          f = fail[f];
+          link = this.child(f, labels[k]);
+        }
+        fail[child] = link < 0 ? 0 : link;
+      }
+    }
+    this.fail = fail;
+
+    // Outputs of a state: its own, then those of its fail target
+    const sizes = new Uint32Array(count);
+    for (let k = 1; k < count; k++) {
+      const state = order[k];
+      sizes[state] = own[state + 1] - own[state] + sizes[fail[state]];
+    }
+    const outputStarts = new Uint32Array(count + 1);
+    for (let s = 0; s < count; s++) outputStarts[s + 1] = outputStarts[s] + sizes[s];
+    const outputIndexes = new Uint32Array(outputStarts[count]);
+    for (let k = 1; k < count; k++) {
+      const state = order[k];
+      let at = outputStarts[state];
+      for (let o = own[state]; o < own[state + 1]; o++) outputIndexes[at++] = ownIndexes[o];
+      const f = fail[state];
+      outputIndexes.copyWithin(at, outputStarts[f], outputStarts[f + 1]);
+    }
+    this.outputStarts = outputStarts;
+    this.outputIndexes = outputIndexes;
+
+    this.edges = undefined;
+    this.depths = undefined;
+    this.terminals = undefined;
+  }
+
+  /** Writes the built arrays as they are, and the output table as JSON. */
+  writeTo(writer: SnapshotWriter): void {
+    writer.u32(this.offsets);
+    writer.u32(this.labels);
+    writer.u32(this.targets);
+    writer.u32(this.fail);
+    writer.u32(this.depth);
+    writer.u32(this.outputStarts);
+    writer.u32(this.outputIndexes);
+    writer.json(this.table);
+  }
+
+  /** Restores a built automaton; its arrays are views into the snapshot's buffer. */
+  static readFrom(reader: SnapshotReader): CompactAutomaton {
+    const automaton = new CompactAutomaton();
+    automaton.edges = undefined;
+    automaton.depths = undefined;
+    automaton.terminals = undefined;
+    automaton.offsets = reader.u32();
+    automaton.labels = reader.u32();
+    automaton.targets = reader.u32();
+    automaton.fail = reader.u32();
+    automaton.depth = reader.u32();
+    automaton.outputStarts = reader.u32();
+    automaton.outputIndexes = reader.u32();
+    for (const output of reader.json<AhoOutput[]>()) automaton.table.push(output);
+    automaton.fillRootTable();
+    return automaton;
+  }
+
+  /** See `AhoCorasick.next`. */
+  next(state: number, ch: string): number {
+    const codePoint = ch.codePointAt(0)!;
+    for (;;) {
+      const target = this.child(state, codePoint);
+      if (target >= 0) return target;
+      if (state === 0) return 0;
+      state = this.fail[state];
+    }
+  }
+
+  outputsAt(state: number): readonly AhoOutput[] {
+    const start = this.outputStarts[state];
+    const end = this.outputStarts[state + 1];
+    if (start === end) return NO_OUTPUTS;
+    const outputs: AhoOutput[] = [];
+    for (let k = start; k < end; k++) outputs.push(this.table[this.outputIndexes[k]]);
+    return outputs;
+  }
+
+  depthOf(state: number): number {
+    return this.depth[state];
+  }
+
+  findAllMatches(
+    text: string,
+    wholeWordsOnly: boolean,
+    separators?: SeparatorPolicy,
+    branching?: ConfusableBranching,
+  ): AhoMatch[] {
+    return scanAutomaton(this, text, wholeWordsOnly, separators, branching);
+  }
+
+  private fillRootTable(): void {
+    for (let k = 0; k < this.offsets[1]; k++) {
+      if (this.labels[k] < ROOT_TABLE_SIZE) this.rootTable[this.labels[k]] = this.targets[k];
+    }
+  }
+
+  // Transition of `state` on `codePoint`, or -1
+  private child(state: number, codePoint: number): number {
+    if (state === 0 && codePoint < ROOT_TABLE_SIZE) return this.rootTable[codePoint];
+    let low = this.offsets[state];
+    let high = this.offsets[state + 1] - 1;
+    while (low <= high) {
+      const mid = (low + high) >>> 1;
+      const label = this.labels[mid];
+      if (label === codePoint) return this.targets[mid];
+      if (label < codePoint) low = mid + 1;
+      else high = mid - 1;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,118 @@
+import { tokenize } from './unicode';
+
+/** A token whose letters come from more than one of the scripts below ("fu\u0441k"). */
+export interface SuspiciousToken {
+  token: string;
+  index: number; // UTF-16 offsets into the original input
+  length: number;
+  scripts: ConfusableScript[];
+}
+
+export type ConfusableScript = 'Latin' | 'Cyrillic' | 'Greek' | 'Armenian';
+
+/**
+ * Cyrillic, Greek and Armenian letters whose skeleton (Unicode TR39
+ * confusables data) is a Latin letter. Case is kept, so case folding and
+ * `caseSensitive` behave as for Latin input.
+ */
+export const CROSS_SCRIPT_CONFUSABLES: Readonly<Record<string, string>> = Object.freeze({
+  // Cyrillic
+  '\u0430': 'a', // a
+  '\u0435': 'e', // ie
+  '\u043e': 'o', // o
+  '\u0440': 'p', // er
+  '\u0441': 'c', // es
+  '\u0443': 'y', // u
+  '\u0445': 'x', // ha
+  '\u0455': 's', // dze
+  '\u0456': 'i', // Byelorussian-Ukrainian i
+  '\u0458': 'j', // je
+  '\u0501': 'd', // komi de
+  '\u04bb': 'h', // shha
+  '\u04cf': 'l', // palochka
+  '\u051b': 'q', // qa
+  '\u051d': 'w', // we
+  '\u04af': 'y', // straight u
+  '\u0410': 'A', // A
+  '\u0412': 'B', // VE
+  '\u0415': 'E', // IE
+  '\u041a': 'K', // KA
+  '\u041c': 'M', // EM
+  '\u041d': 'H', // EN
+  '\u041e': 'O', // O
+  '\u0420': 'P', // ER
+  '\u0421': 'C', // ES
+  '\u0422': 'T', // TE
+  '\u0425': 'X', // HA
+  '\u0423': 'Y', // U
+  '\u0405': 'S', // DZE
+  '\u0406': 'I', // Byelorussian-Ukrainian I
+  '\u0408': 'J', // JE
+  '\u04c0': 'I', // PALOCHKA
+  '\u051a': 'Q', // QA
+  '\u051c': 'W', // WE
+  '\u04ae': 'Y', // STRAIGHT U
+  // Greek
+  '\u03b1': 'a', // alpha
+  '\u03bf': 'o', // omicron
+  '\u03c1': 'p', // rho
+  '\u03bd': 'v', // nu
+  '\u03b9': 'i', // iota
+  '\u03ba': 'k', // kappa
+  '\u03c5': 'u', // upsilon
+  '\u03c7': 'x', // chi
+  '\u03b3': 'y', // gamma
+  '\u0391': 'A', // Alpha
+  '\u0392': 'B', // Beta
+  '\u0395': 'E', // Epsilon
+  '\u0396': 'Z', // Zeta
+  '\u0397': 'H', // Eta
+  '\u0399': 'I', // Iota
+  '\u039a': 'K', // Kappa
+  '\u039c': 'M', // Mu
+  '\u039d': 'N', // Nu
+  '\u039f': 'O', // Omicron
+  '\u03a1': 'P', // Rho
+  '\u03a4': 'T', // Tau
+  '\u03a5': 'Y', // Upsilon
+  '\u03a7': 'X', // Chi
+  // Armenian
+  '\u0585': 'o', // oh
+  '\u057d': 'u', // seh
+  '\u0581': 'g', // co
+  '\u0570': 'h', // ho
+  '\u0578': 'n', // vo
+  '\u0566': 'q', // za
+  '\u0555': 'O', // OH
+  '\u054d': 'U', // SEH
+  '\u053c': 'L', // LIWN
+});
+
+const SCRIPT_REGEXES: [ConfusableScript, RegExp][] = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+];
+
+// Greek through Armenian; text without any of these cannot mix scripts
+const NON_LATIN_RANGE = /[\u0370-\u058f]/u;
+
+/** Folds each cross-script look-alike in `text` to its Latin letter. */
+export function foldCrossScript(text: string): string {
+  let out = '';
+  for (const ch of text) out += CROSS_SCRIPT_CONFUSABLES[ch] ?? ch;
+  return out;
+}
+
+/** Tokens of `input` mixing Latin, Cyrillic, Greek or Armenian letters. */
+export function findMixedScriptTokens(input: string): SuspiciousToken[] {
+  if (!NON_LATIN_RANGE.test(input)) return [];
+  const suspicious: SuspiciousToken[] = [];
+  for (const { value, start, endExclusive } of tokenize(input)) {
+    const scripts = SCRIPT_REGEXES.filter(([, regex]) => regex.test(value)).map(([s]) => s);
+    if (scripts.length < 2) continue;
+    suspicious.push({ token: value, index: start, length: endExclusive - start, scripts });
+  }
+  return suspicious;
+}
@@ -0,0 +1,210 @@
+export interface DecodingSettings {
+  htmlEntities?: boolean; // "&#102;", "&#x75;", "&amp;", "&eacute;"; default false
+  percentEncoding?: boolean; // "%66", "%C3%A9" (UTF-8); default false
+  rot13?: boolean; // also scan the rot13 reading of the whole text ("shpx"); default false
+  base64?: boolean; // also scan base64 segments ("ZnVjaw=="); default false
+}
+
+export type EncodedReadingKind = 'rot13' | 'base64';
+
+/** Text recovered from an encoded part of the input, scanned as a separate reading. */
+export interface EncodedReading {
+  encoding: EncodedReadingKind;
+  index: number; // UTF-16 span of the encoded source
+  length: number;
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  shy: '\u00ad',
+  zwj: '\u200d',
+  zwnj: '\u200c',
+  szlig: '\u00df',
+  aelig: '\u00e6',
+  AElig: '\u00c6',
+  oslash: '\u00f8',
+  Oslash: '\u00d8',
+  eth: '\u00f0',
+  thorn: '\u00fe',
+};
+
+// Accented letters spelled as letter + accent name ("eacute", "Ouml")
+const ACCENT_MARKS: Record<string, string> = {
+  acute: '\u0301',
+  grave: '\u0300',
+  circ: '\u0302',
+  tilde: '\u0303',
+  uml: '\u0308',
+  ring: '\u030a',
+  cedil: '\u0327',
+  caron: '\u030c',
+};
+
+const ENTITY_REGEX = /&(?:#(\d{1,7})|#[xX]([0-9a-fA-F]{1,6})|([a-zA-Z][a-zA-Z0-9]{1,31}));/y;
+
+const PERCENT_REGEX = /(?:%[0-9a-fA-F]{2})+/y;
+
+// Unpadded runs shorter than this are too likely to be ordinary words
+const MIN_BASE64_LENGTH = 8;
+
+const BASE64_REGEX =
+  /(?<![A-Za-z0-9+/=_-])(?:[A-Za-z0-9+/_-]{4})+(?:[A-Za-z0-9+/_-]{2}==|[A-Za-z0-9+/_-]{3}=)?(?![A-Za-z0-9+/=_-])/g;
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Decoded base64 must read as text: no controls other than whitespace
+const PRINTABLE_REGEX = /^(?:[^\p{C}]|[\t\n\r])+$/u;
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * The HTML entity or percent-encoded sequence starting at `index`, if any,
+ * with the text it stands for. Percent-encoded bytes must form valid UTF-8;
+ * a run is decoded up to its last complete character.
+ */
+export function decodeAt(
+  input: string,
+  index: number,
+  settings: DecodingSettings,
+): { text: string; end: number } | undefined {
+  const ch = input[index];
+  if (ch === '&' && settings.htmlEntities) {
+    ENTITY_REGEX.lastIndex = index;
+    const m = ENTITY_REGEX.exec(input);
+    const text = m && decodeEntity(m);
+    if (text) return { text, end: index + m[0].length };
+  } else if (ch === '%' && settings.percentEncoding) {
+    PERCENT_REGEX.lastIndex = index;
+    const m = PERCENT_REGEX.exec(input);
+    if (!m) return undefined;
+    const bytes = m[0]
+      .slice(1)
+      .split('%')
+      .map((hex) => parseInt(hex, 16));
+    const count = utf8SequenceLength(bytes);
+    const text = count > 0 ? decodeUtf8(bytes.slice(0, count)) : undefined;
+    if (text) return { text, end: index + count * 3 };
+  }
+  return undefined;
+}
+
+/**
+ * Start of a tail of `input` that may still grow into an entity or a
+ * percent-encoded character once more text arrives, or `input.length`.
+ */
+export function pendingDecodeStart(input: string, settings: DecodingSettings): number {
+  let start = input.length;
+  if (settings.htmlEntities) {
+    const amp = input.lastIndexOf('&');
+    if (
+      amp >= input.length - 34 &&
+      /^&(?:#[xX]?[0-9a-fA-F]*|[a-zA-Z][a-zA-Z0-9]*)?$/.test(input.slice(amp))
+    ) {
+      start = Math.min(start, amp);
+    }
+  }
+  if (settings.percentEncoding) {
+    const m = /(?:%[0-9a-fA-F]{2})*%?[0-9a-fA-F]?$/.exec(input);
+    if (m && m[0].length > 0 && m[0].includes('%')) start = Math.min(start, m.index);
+  }
+  return start;
+}
+
+/** Alternative readings of `text` for the opt-in rot13 and base64 detectors. */
+export function findEncodedReadings(text: string, settings: DecodingSettings): EncodedReading[] {
+  const readings: EncodedReading[] = [];
+  if (settings.rot13 && /[a-zA-Z]/.test(text)) {
+    readings.push({ encoding: 'rot13', index: 0, length: text.length, text: rot13(text) });
+  }
+  if (settings.base64) {
+    for (const m of text.matchAll(BASE64_REGEX)) {
+      if (m[0].length < MIN_BASE64_LENGTH) continue;
+      const decoded = decodeBase64(m[0]);
+      if (decoded === undefined) continue;
+      readings.push({
+        encoding: 'base64',
+        index: m.index ?? 0,
+        length: m[0].length,
+        text: decoded,
+      });
+    }
+  }
+  return readings;
+}
+
+/**
+ * Maps a span of a reading's text back to the input. rot13 keeps every offset;
+ * base64 packs three bytes into four characters, so matches cover the segment.
+ */
+export function readingSourceSpan(
+  reading: EncodedReading,
+  index: number,
+  length: number,
+): { index: number; length: number } {
+  if (reading.encoding === 'rot13') return { index: reading.index + index, length };
+  return { index: reading.index, length: reading.length };
+}
+
+export function rot13(text: string): string {
+  return text.replace(/[a-zA-Z]/g, (ch) => {
+    const base = ch <= 'Z' ? 65 : 97;
+    return String.fromCharCode(((ch.charCodeAt(0) - base + 13) % 26) + base);
+  });
+}
+
+function decodeEntity(m: RegExpExecArray): string | undefined {
+  const [, decimal, hex, name] = m;
+  if (name) {
+    const named = NAMED_ENTITIES[name];
+    if (named) return named;
+    const accented = /^([a-zA-Z])([a-z]+)$/.exec(name);
+    const mark = accented && ACCENT_MARKS[accented[2]];
+    return mark ? (accented[1] + mark).normalize('NFC') : undefined;
+  }
+  const code = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+  if (code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) return undefined;
+  return String.fromCodePoint(code);
+}
+
+// Bytes taken by the complete UTF-8 characters at the start of `bytes`
+function utf8SequenceLength(bytes: number[]): number {
+  let i = 0;
+  while (i < bytes.length) {
+    const lead = bytes[i];
+    const size = lead < 0x80 ? 1 : lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 0;
+    if (size === 0 || i + size > bytes.length) break;
+    i += size;
+  }
+  return i;
+}
+
+function decodeUtf8(bytes: number[]): string | undefined {
+  try {
+    return utf8.decode(new Uint8Array(bytes));
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeBase64(segment: string): string | undefined {
+  const digits = segment.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const ch of digits) {
+    buffer = ((buffer << 6) | BASE64_ALPHABET.indexOf(ch)) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  const text = decodeUtf8(bytes);
+  return text && PRINTABLE_REGEX.test(text) ? text : undefined;
+}
@@ -0,0 +1,198 @@
+export type KeyboardLayout = 'qwerty' | 'azerty' | 'qwertz';
+
+export interface EditCosts {
+  insertion: number;
+  deletion: number;
+  substitution: number;
+  transposition: number; // swapping two adjacent characters ("fcuk")
+  adjacentKey: number; // substitution between neighbouring keys ("fyck")
+  confusable: number; // substitution between look-alike characters ("l" for "i")
+}
+
+export interface EditDistanceSettings {
+  transpositions?: boolean; // Damerau (optimal string alignment); default true
+  keyboardLayouts?: KeyboardLayout[]; // layouts whose neighbouring keys are cheap; default ['qwerty']
+  confusablePairs?: [string, string][]; // look-alike pairs; default DEFAULT_CONFUSABLE_PAIRS
+  costs?: Partial<EditCosts>;
+}
+
+export const DEFAULT_EDIT_COSTS: Readonly<EditCosts> = Object.freeze({
+  insertion: 1,
+  deletion: 1,
+  substitution: 1,
+  transposition: 1,
+  adjacentKey: 0.5,
+  confusable: 0.5,
+});
+
+// Look-alikes that survive normalization, plus the digit/symbol forms that
+// matter when `confusableMapping` is off
+export const DEFAULT_CONFUSABLE_PAIRS: [string, string][] = [
+  ['i', 'l'],
+  ['i', 'j'],
+  ['u', 'v'],
+  ['o', 'q'],
+  ['n', 'h'],
+  ['m', 'n'],
+  ['c', 'e'],
+  ['0', 'o'],
+  ['1', 'i'],
+  ['1', 'l'],
+  ['3', 'e'],
+  ['4', 'a'],
+  ['5', 's'],
+  ['7', 't'],
+  ['8', 'b'],
+  ['@', 'a'],
+  ['$', 's'],
+];
+
+// Letter rows; each row sits about half a key to the right of the one above
+const KEYBOARD_ROWS: Record<KeyboardLayout, string[]> = {
+  qwerty: ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'],
+  azerty: ['1234567890', 'azertyuiop', 'qsdfghjklm', 'wxcvbn'],
+  qwertz: ['1234567890', 'qwertzuiop', 'asdfghjkl', 'yxcvbnm'],
+};
+
+// Tolerance for comparing sums of fractional costs against a budget
+export const COST_EPSILON = 1e-9;
+
+/**
+ * Costs of single edits for the fuzzy stage. Substitutions between keys that
+ * touch on any configured layout or between configured look-alike pairs are
+ * cheaper than arbitrary ones; adjacent transpositions count as one edit.
+ */
+export class EditCostModel {
+  readonly costs: Readonly<EditCosts>;
+  readonly transpositions: boolean;
+  /** Cheapest single edit, cheap substitutions included. */
+  readonly minCost: number;
+  /** Cheapest ordinary edit (insertion, deletion, substitution, transposition). */
+  readonly baseCost: number;
+  private readonly cheapPairs: Map<string, Map<string, number>> = new Map();
+
+  constructor(settings: EditDistanceSettings = {}) {
+    this.costs = { ...DEFAULT_EDIT_COSTS, ...(settings.costs ?? {}) };
+    for (const [name, value] of Object.entries(this.costs)) {
+      if (!(value > 0)) throw new RangeError(`editDistance.costs.${name} must be positive`);
+    }
+    this.transpositions = settings.transpositions ?? true;
+
+    for (const layout of settings.keyboardLayouts ?? ['qwerty']) {
+      for (const [a, b] of adjacentKeyPairs(KEYBOARD_ROWS[layout])) {
+        this.addPair(a, b, this.costs.adjacentKey);
+      }
+    }
+    for (const [a, b] of settings.confusablePairs ?? DEFAULT_CONFUSABLE_PAIRS) {
+      this.addPair(a, b, this.costs.confusable);
+    }
+
+    const { insertion, deletion, substitution, transposition } = this.costs;
+    let min = Math.min(insertion, deletion, substitution);
+    if (this.transpositions) min = Math.min(min, transposition);
+    this.baseCost = min;
+    for (const costs of this.cheapPairs.values()) {
+      for (const cost of costs.values()) min = Math.min(min, cost);
+    }
+    this.minCost = min;
+  }
+
+  /** Plain Levenshtein: unit costs, no transpositions, no cheap pairs. */
+  static levenshtein(): EditCostModel {
+    return new EditCostModel({ transpositions: false, keyboardLayouts: [], confusablePairs: [] });
+  }
+
+  /**
+   * How many edits the fuzzy index searches for within `budget`: the ordinary
+   * edits it pays for, rounded up so a fractional budget still admits one cheap
+   * substitution. Slices stacking more cheap edits than that are not searched.
+   */
+  maxEdits(budget: number): number {
+    if (budget + COST_EPSILON < this.minCost) return 0;
+    return Math.ceil(budget / this.baseCost - COST_EPSILON);
+  }
+
+  substitution(a: string, b: string): number {
+    if (a === b) return 0;
+    return this.cheapPairs.get(a)?.get(b) ?? this.costs.substitution;
+  }
+
+  /**
+   * Weighted distance between `word` and the slices of `text` starting at
+   * `start`: cell j of the returned row is the cost of turning `word` into the
+   * j code points from `start` (j <= `columns`). Returns undefined once no slice
+   * can stay within `budget`. With `anchored`, the word's leading code points may
+   * not be deleted before the slice starts ("punk" is not a "spunk").
+   */
+  distanceRow(
+    word: string[],
+    text: string[],
+    start: number,
+    columns: number,
+    budget: number,
+    anchored = false,
+  ): Float64Array | undefined {
+    const { insertion, deletion, transposition } = this.costs;
+    let beforePrevious = new Float64Array(columns + 1);
+    let previous = new Float64Array(columns + 1);
+    let current = new Float64Array(columns + 1);
+    for (let j = 0; j <= columns; j++) previous[j] = j * insertion;
+    let previousMin = 0;
+    for (let i = 1; i <= word.length; i++) {
+      current[0] = anchored ? Infinity : i * deletion;
+      let rowMin = current[0];
+      for (let j = 1; j <= columns; j++) {
+        let value = Math.min(
+          previous[j] + deletion,
+          current[j - 1] + insertion,
+          previous[j - 1] + this.substitution(word[i - 1], text[start + j - 1]),
+        );
+        if (
+          this.transpositions &&
+          i > 1 &&
+          j > 1 &&
+          word[i - 1] === text[start + j - 2] &&
+          word[i - 2] === text[start + j - 1] &&
+          word[i - 1] !== word[i - 2]
+        ) {
+          value = Math.min(value, beforePrevious[j - 2] + transposition);
+        }
+        current[j] = value;
+        if (value < rowMin) rowMin = value;
+      }
+      // A transposition can reach back two rows, so stop only when both exceed the budget
+      if (rowMin > budget + COST_EPSILON && previousMin > budget + COST_EPSILON) return undefined;
+      [beforePrevious, previous, current] = [previous, current, beforePrevious];
+      previousMin = rowMin;
+    }
+    return previous;
+  }
+
+  private addPair(a: string, b: string, cost: number): void {
+    if (a === b) return;
+    for (const [from, to] of [
+      [a, b],
+      [b, a],
+    ]) {
+      let costs = this.cheapPairs.get(from);
+      if (!costs) this.cheapPairs.set(from, (costs = new Map()));
+      costs.set(to, Math.min(costs.get(to) ?? cost, cost));
+    }
+  }
+}
+
+function adjacentKeyPairs(rows: string[]): [string, string][] {
+  const pairs: [string, string][] = [];
+  for (let r = 0; r < rows.length; r++) {
+    const row = rows[r];
+    for (let c = 0; c < row.length; c++) {
+      if (c + 1 < row.length) pairs.push([row[c], row[c + 1]]);
+      // Staggered rows: key c touches keys c - 1 and c of the row below
+      const below = rows[r + 1];
+      if (!below) continue;
+      if (c - 1 >= 0 && c - 1 < below.length) pairs.push([row[c], below[c - 1]]);
+      if (c < below.length) pairs.push([row[c], below[c]]);
+    }
+  }
+  return pairs;
+}
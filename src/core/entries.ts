@@ -0,0 +1,93 @@
+import { isWordCharAt, isWordCharBefore } from './unicode';
+
+export type ProfanitySeverity = 'mild' | 'moderate' | 'severe';
+
+export type ProfanityCategory =
+  | 'slur'
+  | 'sexual'
+  | 'insult'
+  | 'religious'
+  | 'scatological'
+  | 'mild';
+
+/**
+ * Where an entry may match: anywhere ("motherfucking"), only as a whole word,
+ * or at the start of a word ("asshat" but not "bass").
+ */
+export type BoundaryMode = 'substring' | 'whole' | 'prefix';
+
+/** How the exact matchers treat one indexed pattern of an entry. */
+export interface PatternOptions {
+  boundary?: BoundaryMode; // unset: the wholeWordsOnly of the search
+  // Where the entry itself had separators, dropped from the pattern like those in
+  // the text: offsets of the code points they preceded ("blow job" -> [4]). A
+  // match with exactly these gaps is not held to the separator rules
+  gaps?: readonly number[];
+  language?: string; // pack of the entry, for matchers shared by several packs
+}
+
+/** Whether a match's gaps (offsets of the code points that follow one) are the entry's own. */
+export function isOwnSpacing(own: readonly number[] | undefined, gaps: readonly number[]): boolean {
+  return own !== undefined && own.length === gaps.length && gaps.every((k, i) => own[i] === k);
+}
+
+export interface EntryMetadata {
+  severity: ProfanitySeverity;
+  categories: ProfanityCategory[];
+  boundary?: BoundaryMode; // unset: `wholeWordsOnly` decides
+}
+
+/**
+ * Structured dictionary entry. Language packs, `addWord` and `customWords`
+ * accept either a bare term or this shape; omitted fields fall back to
+ * `DEFAULT_ENTRY_METADATA`.
+ */
+export interface WordEntry {
+  term: string;
+  severity?: ProfanitySeverity;
+  categories?: ProfanityCategory[];
+  boundary?: BoundaryMode;
+}
+
+export type DictionaryEntry = string | WordEntry;
+
+// Ordered from least to most severe
+export const SEVERITY_LEVELS: readonly ProfanitySeverity[] = ['mild', 'moderate', 'severe'];
+
+export const DEFAULT_ENTRY_METADATA: Readonly<EntryMetadata> = Object.freeze({
+  severity: 'moderate',
+  categories: [],
+});
+
+export function toWordEntry(entry: DictionaryEntry): WordEntry {
+  return typeof entry === 'string' ? { term: entry } : entry;
+}
+
+export function resolveEntryMetadata(
+  entry: WordEntry,
+  fallback: Readonly<EntryMetadata> = DEFAULT_ENTRY_METADATA,
+): EntryMetadata {
+  const metadata: EntryMetadata = {
+    severity: entry.severity ?? fallback.severity,
+    categories: [...(entry.categories ?? fallback.categories)],
+  };
+  const boundary = entry.boundary ?? fallback.boundary;
+  if (boundary) metadata.boundary = boundary;
+  return metadata;
+}
+
+/** Whether a match at `text[start, end)` respects the word boundaries `mode` asks for. */
+export function fitsBoundary(
+  mode: BoundaryMode,
+  text: string,
+  start: number,
+  end: number,
+): boolean {
+  if (mode === 'substring') return true;
+  if (isWordCharBefore(text, start)) return false;
+  return mode === 'prefix' || !isWordCharAt(text, end);
+}
+
+export function severityRank(severity: ProfanitySeverity): number {
+  return SEVERITY_LEVELS.indexOf(severity);
+}
@@ -0,0 +1,188 @@
+import { COST_EPSILON, EditCostModel } from './editDistance';
+import { codePointAt, isWordCharAt, isWordCharBefore } from './unicode';
+
+export interface FuzzyMatch {
+  index: number;
+  length: number;
+  term: string;
+  distance: number; // weighted edit distance between the matched slice and `term`
+}
+
+export interface FuzzySearchOptions {
+  wholeWordsOnly: boolean;
+  /** Only start matches where a token starts (no word character right before). */
+  tokenBounded: boolean;
+}
+
+interface FuzzyEntry {
+  term: string;
+  chars: string[]; // code points
+  maxDistance: number;
+  maxInserted: number; // extra text code points the budget can pay for
+}
+
+// Only this many leading code points are indexed (as in SymSpell): fewer deletes
+// per word and per lookup, and a candidate is verified against the full word anyway
+const PREFIX_LENGTH = 7;
+
+// Words shorter than this must keep their first code point: one edit away from a
+// four-letter word are plenty of clean ones ("duck", "luck")
+const SHORT_WORD_LENGTH = 5;
+
+/**
+ * Approximate-match index in the style of SymSpell. Every dictionary word is
+ * stored under each string obtained by deleting up to its budget of code points
+ * from its first `PREFIX_LENGTH` code points. If a text slice is within d edits
+ * of a word, their equally long prefixes reach a common string with at most d
+ * deletes each, so looking up the deletes of the text at each start finds every
+ * candidate; candidates are then verified with a bounded distance row of the
+ * cost model that covers every possible end of the match at once.
+ *
+ * Budgets are in cost units of the edit model and may be fractional; the delete
+ * depth is `model.maxEdits(budget)`.
+ *
+ * For each start and word the slice with the lowest distance (ties: length
+ * closest to the word) is reported. A slice starts where the word starts: its
+ * leading code points are never deleted, so a shorter word is not a hit, and
+ * words under five code points must keep their first one. Text is walked by
+ * code point; offsets and lengths are UTF-16 code units.
+ */
+export class FuzzyIndex {
+  private readonly entries: FuzzyEntry[] = [];
+  private readonly byTerm: Map<string, number> = new Map();
+  private readonly deletes: Map<string, number[]> = new Map();
+  // Largest budget per indexed prefix length (word length, capped at PREFIX_LENGTH)
+  private readonly editsByPrefix: Map<number, number> = new Map();
+
+  constructor(private readonly model: EditCostModel = EditCostModel.levenshtein()) {}
+
+  /** Adds `word` with its distance budget. Words with no budget are skipped (exact stages cover them). */
+  insert(word: string, maxDistance: number): void {
+    const edits = this.model.maxEdits(maxDistance);
+    if (!word || edits <= 0 || this.byTerm.has(word)) return;
+    const chars = Array.from(word);
+    const id = this.entries.length;
+    const maxInserted = Math.floor(maxDistance / this.model.costs.insertion + COST_EPSILON);
+    this.entries.push({ term: word, chars, maxDistance, maxInserted });
+    this.byTerm.set(word, id);
+    const prefix = chars.slice(0, PREFIX_LENGTH);
+    for (const key of deleteVariants(prefix, edits)) {
+      const ids = this.deletes.get(key);
+      if (ids) ids.push(id);
+      else this.deletes.set(key, [id]);
+    }
+    this.editsByPrefix.set(
+      prefix.length,
+      Math.max(this.editsByPrefix.get(prefix.length) ?? 0, edits),
+    );
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  findAllMatches(text: string, options: FuzzySearchOptions): FuzzyMatch[] {
+    const results: FuzzyMatch[] = [];
+    if (this.entries.length === 0) return results;
+
+    const chars: string[] = [];
+    const offsets: number[] = [];
+    for (let i = 0; i < text.length; ) {
+      const ch = codePointAt(text, i);
+      chars.push(ch);
+      offsets.push(i);
+      i += ch.length;
+    }
+    offsets.push(text.length);
+
+    for (let start = 0; start < chars.length; start++) {
+      const at = offsets[start];
+      const leftOk = !isWordCharBefore(text, at);
+      if (options.tokenBounded && (!leftOk || !isWordCharAt(text, at))) continue;
+      if (options.wholeWordsOnly && !leftOk) continue;
+
+      // Words are keyed by prefixes of their own length (up to PREFIX_LENGTH), so
+      // the text is looked up with a prefix of each indexed length
+      const candidates = new Set<number>();
+      for (const [length, edits] of this.editsByPrefix) {
+        const prefix = chars.slice(start, start + length);
+        if (prefix.length + edits < length) continue;
+        for (const key of deleteVariants(prefix, edits)) {
+          for (const id of this.deletes.get(key) ?? []) candidates.add(id);
+        }
+      }
+
+      for (const id of candidates) {
+        const entry = this.entries[id];
+        const best = bestEnd(this.model, entry, chars, start, (end) =>
+          options.wholeWordsOnly ? !isWordCharAt(text, offsets[end]) : true,
+        );
+        if (!best) continue;
+        results.push({
+          index: at,
+          length: offsets[start + best.length] - at,
+          term: entry.term,
+          distance: best.distance,
+        });
+      }
+    }
+    return results;
+  }
+}
+
+/**
+ * Distance row of `entry` against the text from `start`: cell j is the cost of
+ * the slice of j code points. Returns the best slice within the entry's budget
+ * whose end passes `endOk`, or undefined.
+ */
+function bestEnd(
+  model: EditCostModel,
+  entry: FuzzyEntry,
+  chars: string[],
+  start: number,
+  endOk: (end: number) => boolean,
+): { length: number; distance: number } | undefined {
+  const word = entry.chars;
+  const budget = entry.maxDistance;
+  if (word.length < SHORT_WORD_LENGTH && chars[start] !== word[0]) return undefined;
+  const columns = Math.min(word.length + entry.maxInserted, chars.length - start);
+  // Dropping the word's first letters would turn clean words into hits ("punk" -> "spunk")
+  const row = model.distanceRow(word, chars, start, columns, budget, true);
+  if (!row) return undefined;
+
+  let best: { length: number; distance: number } | undefined;
+  for (let j = 1; j <= columns; j++) {
+    const distance = row[j];
+    if (distance > budget + COST_EPSILON || !endOk(start + j)) continue;
+    if (
+      !best ||
+      distance < best.distance ||
+      (distance === best.distance &&
+        Math.abs(j - word.length) < Math.abs(best.length - word.length))
+    ) {
+      best = { length: j, distance };
+    }
+  }
+  return best;
+}
+
+/** `chars` and every string obtained by deleting up to `edits` of its code points. */
+function deleteVariants(chars: string[], edits: number): Set<string> {
+  const out = new Set<string>([chars.join('')]);
+  let frontier: string[][] = [chars];
+  for (let round = 0; round < edits; round++) {
+    const next: string[][] = [];
+    for (const current of frontier) {
+      if (current.length <= 1) continue;
+      for (let i = 0; i < current.length; i++) {
+        const shorter = current.slice(0, i).concat(current.slice(i + 1));
+        const key = shorter.join('');
+        if (out.has(key)) continue;
+        out.add(key);
+        next.push(shorter);
+      }
+    }
+    frontier = next;
+  }
+  return out;
+}
@@ -0,0 +1,36 @@
+/**
+ * Inflection rules of one language. Suffixes are appended to every entry;
+ * endings replace the end of entries that have it, for languages that inflect
+ * by changing the ending ("puta" -> "puto", "putas").
+ */
+export interface MorphologyRules {
+  suffixes?: string[];
+  endings?: Record<string, string[]>; // ending -> replacements
+}
+
+/** The entry and its inflected forms, without duplicates. Every ending that fits applies. */
+export function inflect(word: string, rules: MorphologyRules): string[] {
+  const forms = new Set([word]);
+  for (const suffix of rules.suffixes ?? []) forms.add(word + suffix);
+  for (const [ending, replacements] of Object.entries(rules.endings ?? {})) {
+    // Keep a stem: "a" alone is not an inflected "a"-word
+    if (!ending || word.length <= ending.length || !word.endsWith(ending)) continue;
+    const stem = word.slice(0, word.length - ending.length);
+    for (const replacement of replacements) forms.add(stem + replacement);
+  }
+  return Array.from(forms);
+}
+
+/** Applies `map` to every suffix, ending and replacement, e.g. to normalize them like entries. */
+export function mapMorphologyRules(
+  rules: MorphologyRules,
+  map: (affix: string) => string,
+): MorphologyRules {
+  const endings: Record<string, string[]> = {};
+  for (const [ending, replacements] of Object.entries(rules.endings ?? {})) {
+    // Endings that map to the same text share their replacements
+    const key = map(ending);
+    endings[key] = [...(endings[key] ?? []), ...replacements.map(map)];
+  }
+  return { suffixes: (rules.suffixes ?? []).map(map), endings };
+}
@@ -1,3 +1,8 @@
+import { CROSS_SCRIPT_CONFUSABLES, foldCrossScript } from './confusables';
+import { decodeAt, pendingDecodeStart, type DecodingSettings } from './decoding';
+import { foldStyledLetter, foldStyledLetters } from './styledLetters';
+import { codePointAt } from './unicode';
+
 export interface NormalizationOptions {
   caseSensitive: boolean;
   confusableMapping: boolean;
@@ -5,76 +10,534 @@ export interface NormalizationOptions {
   useNFKC?: boolean;
   lengthPreserving?: boolean;
   stripInvisible?: boolean;
+  stripMarks?: boolean; // every combining mark (\p{M}), not just U+0300-U+036F; offset-mapped path only
+  keepMarkScripts?: readonly string[]; // scripts whose marks survive stripMarks (default MARK_SCRIPTS)
+  foldStyledLetters?: boolean; // fullwidth, circled, math and flag alphabets become plain letters
+  foldCrossScript?: boolean; // Cyrillic/Greek/Armenian look-alikes become Latin ("fu\u0441k" -> "fuck")
+  collapseRepeats?: boolean; // runs of 3+ identical letters become one ("fuuuck" -> "fuck")
+  substitutions?: Record<string, string>; // multi-character sequences, e.g. { '|<': 'k' }
+  decoding?: DecodingSettings; // HTML entities and percent-encoding; offset-mapped path only
 }
 
-const CONFUSABLE_MAP: Record<string, string> = {
-  '0': 'o',
-  '1': 'i',
-  '3': 'e',
-  '4': 'a',
-  '5': 's',
-  '7': 't',
-  '8': 'b',
-  '@': 'a',
-  $: 's',
-  '!': 'i',
-  '|': 'i',
-  '€': 'e',
-  '£': 'l',
-  '¢': 'c',
-  '§': 's',
+/** A normalization step that changed the text, as reported by explain mode. */
+export type NormalizationChange =
+  | 'decoded'
+  | 'styled'
+  | 'nfkc'
+  | 'invisible'
+  | 'diacritics'
+  | 'marks'
+  | 'script'
+  | 'case'
+  | 'confusable'
+  | 'repeats';
+
+const CHANGE_ORDER: NormalizationChange[] = [
+  'decoded',
+  'styled',
+  'nfkc',
+  'invisible',
+  'diacritics',
+  'marks',
+  'script',
+  'case',
+  'confusable',
+  'repeats',
+];
+
+// Look-alikes and the letters they may stand for, most likely first. Normalized
+// text holds the first; matchers may branch into the others (`alternatives`)
+const CONFUSABLE_CANDIDATES: Record<string, string[]> = {
+  '0': ['o'],
+  '1': ['i', 'l'],
+  '3': ['e'],
+  '4': ['a'],
+  '5': ['s'],
+  '7': ['t'],
+  '8': ['b'],
+  '@': ['a'],
+  $: ['s'],
+  '!': ['i', 'l'],
+  '|': ['i', 'l'],
+  '€': ['e'],
+  '£': ['l'],
+  '¢': ['c'],
+  '§': ['s'],
 };
 
+const CONFUSABLE_MAP: Record<string, string> = Object.fromEntries(
+  Object.entries(CONFUSABLE_CANDIDATES).map(([ch, candidates]) => [ch, candidates[0]]),
+);
+
+// Multi-character leetspeak; single characters are covered by CONFUSABLE_MAP.
+// Applied to the source text before it, longest sequence first. Only symbol
+// sequences that ordinary words do not contain: "ph" -> "f" would turn
+// "esophagus" into a slur, so it is opt-in (`substitutions`, `highRecallPreset`).
+export const DEFAULT_SUBSTITUTIONS: Readonly<Record<string, string>> = Object.freeze({
+  '|=': 'f',
+  '|<': 'k',
+  '|{': 'k',
+  '()': 'o',
+  '[]': 'o',
+  '\\/': 'v',
+  vv: 'w',
+  '\\/\\/': 'w',
+  '|-|': 'h',
+  ']-[': 'h',
+  '}{': 'h',
+  '|\\|': 'n',
+  '/\\/': 'n',
+  '|\\/|': 'm',
+  '/\\/\\': 'm',
+  '/\\': 'a',
+  '|_|': 'u',
+  '(_)': 'u',
+  '|3': 'b',
+  '|)': 'd',
+  '|2': 'r',
+  '|_': 'l',
+  '><': 'x',
+});
+
+interface SubstitutionTable {
+  byFirst: Map<string, { from: string; lower: string; to: string }[]>; // longest first
+  longest: number;
+}
+
+const substitutionTables = new WeakMap<Record<string, string>, SubstitutionTable>();
+
 const COMBINING_MARKS_REGEX = /[\u0300-\u036f]/g;
 
+// Zero-width space, non-joiner, joiner, BOM, soft hyphen
+const INVISIBLE_CHARS = new Set(['\u200B', '\u200C', '\u200D', '\uFEFF', '\u00AD']);
+
+const MARK_REGEX = /^\p{M}/u;
+
+const ALL_MARKS_REGEX = /\p{M}/gu;
+
+/**
+ * Scripts whose combining marks are part of ordinary spelling (vowel signs,
+ * viramas, harakat, niqqud, dakuten), so `stripMarks` keeps them by default.
+ */
+export const MARK_SCRIPTS: readonly string[] = Object.freeze([
+  'Arabic',
+  'Hebrew',
+  'Syriac',
+  'Thaana',
+  'Devanagari',
+  'Bengali',
+  'Gurmukhi',
+  'Gujarati',
+  'Oriya',
+  'Tamil',
+  'Telugu',
+  'Kannada',
+  'Malayalam',
+  'Sinhala',
+  'Thai',
+  'Lao',
+  'Tibetan',
+  'Myanmar',
+  'Khmer',
+  'Hiragana',
+  'Katakana',
+]);
+
+const keepMarkPatterns = new WeakMap<readonly string[], RegExp>();
+
+// Matches a cluster whose base letter belongs to one of `scripts`
+function keepMarkPattern(scripts: readonly string[]): RegExp {
+  let pattern = keepMarkPatterns.get(scripts);
+  if (!pattern) {
+    const classes = scripts.map((script) => `\\p{Script=${script}}`).join('');
+    pattern = scripts.length > 0 ? new RegExp(`^[${classes}]`, 'u') : /$^/;
+    keepMarkPatterns.set(scripts, pattern);
+  }
+  return pattern;
+}
+
+const LETTER_REGEX = /^\p{L}$/u;
+
+// Shorter runs are left alone: double letters are ordinary spelling ("ass", "boot")
+export const MIN_COLLAPSED_RUN = 3;
+
+/**
+ * Normalized text plus, for every UTF-16 unit of `text`, the span of the
+ * source input it came from: unit `i` was produced by `input.slice(starts[i], ends[i])`.
+ * Units produced by the same source cluster (e.g. "ﬁ" -> "fi", or "é" written
+ * as e + U+0301) share the cluster's span.
+ *
+ * With `collapseRepeats`, `repeats[i]` is the number of source clusters unit
+ * `i` stands for (1 unless it is a collapsed run, whose span covers the run).
+ * With `confusableMapping`, `alternatives` lists the other letters an
+ * ambiguous look-alike at unit `i` may stand for ("1" is "i" in `text`, or "l").
+ */
+export interface NormalizedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+  repeats?: number[];
+  alternatives?: Map<number, string[]>;
+}
+
+/**
+ * Lets the exact matchers try the `alternatives` of ambiguous look-alikes
+ * (keyed by UTF-16 offset into the normalized text). At most `maxBranches`
+ * partial matches are followed at once; the primary reading is tried first.
+ */
+export interface ConfusableBranching {
+  alternatives: ReadonlyMap<number, readonly string[]>;
+  maxBranches: number;
+}
+
 export function normalizeForDetection(input: string, options: NormalizationOptions): string {
+  return normalizeWithOffsets(input, options).text;
+}
+
+export function normalizeWithOffsets(input: string, options: NormalizationOptions): NormalizedText {
+  if (options.lengthPreserving ?? true) {
+    const text = normalizeLengthPreserving(input, options);
+    const starts: number[] = new Array(text.length);
+    const ends: number[] = new Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+      starts[i] = i;
+      ends[i] = i + 1;
+    }
+    return { text, starts, ends };
+  }
+
+  let text = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const repeats: number[] | undefined = options.collapseRepeats ? [] : undefined;
+  const alternatives = new Map<number, string[]>();
+  const emit = (
+    out: string,
+    start: number,
+    end: number,
+    count: number,
+    candidates?: string[],
+  ): void => {
+    if (candidates) alternatives.set(text.length, candidates);
+    for (let k = 0; k < out.length; k++) {
+      starts.push(start);
+      ends.push(end);
+      repeats?.push(count);
+    }
+    text += out;
+  };
+
+  // Source spans of the current run of one repeated letter (collapseRepeats only)
+  let run: { out: string; spans: [number, number, string[]?][] } | undefined;
+  const flushRun = (): void => {
+    if (!run) return;
+    const { out, spans } = run;
+    if (spans.length >= MIN_COLLAPSED_RUN) {
+      const candidates = [...new Set(spans.flatMap(([, , alternatives]) => alternatives ?? []))];
+      const merged = candidates.length > 0 ? candidates : undefined;
+      emit(out, spans[0][0], spans[spans.length - 1][1], spans.length, merged);
+    } else {
+      for (const [start, end, candidates] of spans) emit(out, start, end, 1, candidates);
+    }
+    run = undefined;
+  };
+
+  walkUnits(input, options, (out, start, end, candidates) => {
+    if (!repeats) {
+      emit(out, start, end, 1, candidates);
+    } else if (run?.out === out) {
+      run.spans.push([start, end, candidates]);
+    } else {
+      flushRun();
+      if (LETTER_REGEX.test(out)) run = { out, spans: [[start, end, candidates]] };
+      else emit(out, start, end, 1, candidates);
+    }
+  });
+  flushRun();
+  const normalized: NormalizedText = { text, starts, ends };
+  if (repeats) normalized.repeats = repeats;
+  if (alternatives.size > 0) normalized.alternatives = alternatives;
+  return normalized;
+}
+
+/**
+ * Walks `input` in normalization units: a substitution sequence (longest match
+ * wins, extended over trailing combining marks) or a single cluster. `visit`
+ * also receives the other letters an ambiguous look-alike may stand for.
+ */
+function walkUnits(
+  input: string,
+  options: NormalizationOptions,
+  visit: (out: string, start: number, end: number, alternatives?: string[]) => void,
+  changes?: Set<NormalizationChange>,
+): void {
+  const table = options.substitutions ? compileSubstitutions(options.substitutions) : undefined;
+  let i = 0;
+  while (i < input.length) {
+    const start = i;
+    // An encoded sequence stands for its decoded text, which is normalized as usual
+    const decoded = options.decoding && decodeAt(input, i, options.decoding);
+    if (decoded) {
+      changes?.add('decoded');
+      let out = '';
+      for (let k = 0; k < decoded.text.length; k = clusterEnd(decoded.text, k)) {
+        out += normalizeCluster(
+          decoded.text.slice(k, clusterEnd(decoded.text, k)),
+          options,
+          changes,
+        );
+      }
+      i = decoded.end;
+      visit(out, start, i);
+      continue;
+    }
+    const substitution = table && matchSubstitution(table, input, i, options.caseSensitive);
+    if (substitution) {
+      changes?.add('confusable');
+      while (i < start + substitution.from.length) i = clusterEnd(input, i);
+      visit(substitution.to, start, i);
+      continue;
+    }
+    i = clusterEnd(input, i);
+    const cluster = input.slice(start, i);
+    const out = normalizeCluster(cluster, options, changes);
+    const candidates = options.confusableMapping ? CONFUSABLE_CANDIDATES[cluster] : undefined;
+    const ambiguous = candidates && candidates.length > 1 && out === candidates[0];
+    visit(out, start, i, ambiguous ? candidates.slice(1) : undefined);
+  }
+}
+
+function compileSubstitutions(substitutions: Record<string, string>): SubstitutionTable {
+  let table = substitutionTables.get(substitutions);
+  if (!table) {
+    table = { byFirst: new Map(), longest: 0 };
+    const entries = Object.entries(substitutions)
+      .filter(([from]) => from.length > 0)
+      .sort(([a], [b]) => b.length - a.length);
+    for (const [from, to] of entries) {
+      const lower = from.toLowerCase();
+      const first = lower[0];
+      const list = table.byFirst.get(first) ?? [];
+      list.push({ from, lower, to });
+      table.byFirst.set(first, list);
+      table.longest = Math.max(table.longest, from.length);
+    }
+    substitutionTables.set(substitutions, table);
+  }
+  return table;
+}
+
+function matchSubstitution(
+  table: SubstitutionTable,
+  input: string,
+  index: number,
+  caseSensitive: boolean,
+): { from: string; to: string } | undefined {
+  const candidates = table.byFirst.get(input[index].toLowerCase());
+  if (!candidates) return undefined;
+  for (const candidate of candidates) {
+    const slice = input.slice(index, index + candidate.from.length);
+    if (caseSensitive ? slice === candidate.from : slice.toLowerCase() === candidate.lower) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Length of the prefix of `input` whose normalization cannot change when more
+ * text is appended. Streaming callers hold the rest back: combining marks may
+ * still follow the last cluster, and a substitution sequence or an encoded
+ * character ("&#10", "%C3") may be incomplete.
+ */
+export function stablePrefixLength(input: string, options: NormalizationOptions): number {
+  let end = lastClusterStart(input);
+  if (options.decoding) end = Math.min(end, pendingDecodeStart(input, options.decoding));
+  if (!options.substitutions && !options.decoding) return end;
+  if (options.substitutions) {
+    const table = compileSubstitutions(options.substitutions);
+    // The earliest tail that is still a proper prefix of a sequence
+    for (let i = Math.max(0, input.length - table.longest + 1); i < end; i++) {
+      const tail = input.slice(i).toLowerCase();
+      const candidates = table.byFirst.get(tail[0]) ?? [];
+      if (candidates.some((c) => c.lower.length > tail.length && c.lower.startsWith(tail))) {
+        end = i;
+        break;
+      }
+    }
+  }
+  // Step back to a unit boundary so no sequence is cut in half
+  walkUnits(input, options, (_out, start, unitEnd) => {
+    if (start < end && unitEnd > end) end = start;
+  });
+  return end;
+}
+
+/**
+ * Start of the last cluster of `input`. Streaming callers hold that cluster
+ * back until more text arrives, since combining marks may still follow it.
+ */
+export function lastClusterStart(input: string): number {
+  let last = 0;
+  for (let i = 0; i < input.length; i = clusterEnd(input, i)) last = i;
+  return last;
+}
+
+// A cluster is one code point plus any combining marks that follow it, so
+// NFKC composition and diacritic stripping never straddle two clusters.
+function clusterEnd(input: string, start: number): number {
+  let i = start + codePointAt(input, start).length;
+  while (
+    i < input.length &&
+    input.charCodeAt(i) >= 0x300 &&
+    MARK_REGEX.test(input.slice(i, i + 2))
+  ) {
+    i += codePointAt(input, i).length;
+  }
+  return i;
+}
+
+/** The steps that changed `input` when normalizing it, in pipeline order. */
+export function describeNormalization(
+  input: string,
+  options: NormalizationOptions,
+): NormalizationChange[] {
+  const changes = new Set<NormalizationChange>();
+  walkUnits(input, options, () => undefined, changes);
+  if (options.collapseRepeats && normalizeWithOffsets(input, options).repeats?.some((n) => n > 1)) {
+    changes.add('repeats');
+  }
+  return CHANGE_ORDER.filter((c) => changes.has(c));
+}
+
+/** Runs of equal code points in `chars`, each weighted by `counts[i]` (default 1). */
+export function codePointRuns(chars: string[], counts?: number[]): { ch: string; count: number }[] {
+  const runs: { ch: string; count: number }[] = [];
+  chars.forEach((ch, i) => {
+    const count = counts?.[i] ?? 1;
+    const last = runs[runs.length - 1];
+    if (last?.ch === ch) last.count += count;
+    else runs.push({ ch, count });
+  });
+  return runs;
+}
+
+/** Maps a span of normalized text back to the source span that produced it. */
+export function toSourceSpan(
+  normalized: NormalizedText,
+  index: number,
+  length: number,
+): { index: number; length: number } {
+  if (length <= 0) {
+    const at = normalized.starts[index] ?? normalized.ends[normalized.ends.length - 1] ?? 0;
+    return { index: at, length: 0 };
+  }
+  const start = normalized.starts[index];
+  const end = normalized.ends[index + length - 1];
+  return { index: start, length: end - start };
+}
+
+// `changes`, when given, collects the steps that altered the cluster (explain mode)
+function normalizeCluster(
+  cluster: string,
+  options: NormalizationOptions,
+  changes?: Set<NormalizationChange>,
+): string {
   const { caseSensitive, confusableMapping } = options;
   const stripDiacritics = options.stripDiacritics ?? true;
-  const useNFKC = options.useNFKC ?? false;
-  const lengthPreserving = options.lengthPreserving ?? true;
   const stripInvisible = options.stripInvisible ?? true;
 
-  let text = caseSensitive ? input : input.toLowerCase();
+  // ASCII fast path: nothing to compose, decompose or strip
+  if (cluster.length === 1 && cluster.charCodeAt(0) < 0x80) {
+    const ch = track(cluster, caseSensitive ? cluster : cluster.toLowerCase(), 'case', changes);
+    return confusableMapping ? track(ch, CONFUSABLE_MAP[ch] ?? ch, 'confusable', changes) : ch;
+  }
 
-  if (useNFKC && !lengthPreserving) {
-    text = text.normalize('NFKC');
+  let out = cluster;
+  // First, so whole astral letters fold rather than what NFKC/NFKD leave of them
+  if (options.foldStyledLetters) out = track(out, foldStyledLetters(out), 'styled', changes);
+  if (options.useNFKC) out = track(out, out.normalize('NFKC'), 'nfkc', changes);
+  if (stripInvisible && INVISIBLE_CHARS.has(out)) {
+    changes?.add('invisible');
+    return '';
+  }
+  if (stripDiacritics) {
+    // Full compatibility decomposition; expansions such as "ﬁ" -> "fi" are kept
+    const decomposed = out.normalize('NFKD').replace(COMBINING_MARKS_REGEX, '');
+    out = track(out, decomposed, 'diacritics', changes);
+  }
+  // Zalgo text stacks marks from any block; the cluster's base decides whether they matter
+  if (options.stripMarks && !keepMarkPattern(options.keepMarkScripts ?? MARK_SCRIPTS).test(out)) {
+    out = track(out, out.replace(ALL_MARKS_REGEX, ''), 'marks', changes);
   }
+  // Lowercase after compatibility mapping so e.g. fullwidth capitals fold too
+  if (!caseSensitive) out = track(out, out.toLowerCase(), 'case', changes);
+  // After case folding: the table folds more capitals than small letters (VE but not ve),
+  // so uppercase Cyrillic would no longer match the lowercase pack entries
+  if (options.foldCrossScript) out = track(out, foldCrossScript(out), 'script', changes);
+  if (confusableMapping) {
+    let mapped = '';
+    for (const ch of out) mapped += CONFUSABLE_MAP[ch] ?? ch;
+    out = track(out, mapped, 'confusable', changes);
+  }
+  return out;
+}
 
-  if (stripDiacritics || confusableMapping || (useNFKC && lengthPreserving) || stripInvisible) {
+function track(
+  before: string,
+  after: string,
+  change: NormalizationChange,
+  changes?: Set<NormalizationChange>,
+): string {
+  if (changes && after !== before) changes.add(change);
+  return after;
+}
+
+/**
+ * Legacy per-code-unit normalization: output has exactly the input length so
+ * indices line up 1:1. Compatibility expansions keep only their first unit and
+ * invisible characters become spaces.
+ */
+function normalizeLengthPreserving(input: string, options: NormalizationOptions): string {
+  const { caseSensitive, confusableMapping } = options;
+  const stripDiacritics = options.stripDiacritics ?? true;
+  const useNFKC = options.useNFKC ?? false;
+  const stripInvisible = options.stripInvisible ?? true;
+
+  let text = caseSensitive ? input : input.toLowerCase();
+
+  if (
+    stripDiacritics ||
+    confusableMapping ||
+    useNFKC ||
+    stripInvisible ||
+    options.foldCrossScript ||
+    options.foldStyledLetters
+  ) {
     let out = '';
     for (let i = 0; i < text.length; i++) {
       let ch = text[i];
 
-      // Strip common invisible/zero-width characters
-      if (stripInvisible) {
-        // Zero-width space, joiner, non-joiner, BOM, soft hyphen
-        if (
-          ch === '\u200B' ||
-          ch === '\u200C' ||
-          ch === '\u200D' ||
-          ch === '\uFEFF' ||
-          ch === '\u00AD'
-        ) {
-          // Keep indices aligned when lengthPreserving by substituting a neutral separator
-          if (lengthPreserving) {
-            ch = ' ';
-          } else {
-            continue;
-          }
-        }
+      // Only BMP styled letters fold here; astral ones are split into surrogates
+      if (options.foldStyledLetters) {
+        ch = foldStyledLetter(ch) ?? ch;
+      }
+
+      // Keep indices aligned by substituting a neutral separator
+      if (stripInvisible && INVISIBLE_CHARS.has(ch)) {
+        ch = ' ';
       }
 
-      // Per-character compatibility and diacritics handling to keep length stable
       if (stripDiacritics) {
         const decomposed = ch.normalize('NFKD');
         // Remove combining marks; if multiple base chars appear (e.g., ﬁ -> f i),
-        // keep only the first when lengthPreserving is true
+        // keep only the first
         const base = decomposed.replace(COMBINING_MARKS_REGEX, '');
-        if (lengthPreserving) {
-          ch = base.length > 0 ? base[0] : ch;
-        } else {
-          ch = base;
-        }
+        ch = base.length > 0 ? base[0] : ch;
+      }
+
+      if (options.foldCrossScript) {
+        ch = CROSS_SCRIPT_CONFUSABLES[ch] ?? ch;
       }
 
       if (confusableMapping && ch.length === 1) {
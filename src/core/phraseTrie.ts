@@ -1,15 +1,19 @@
+import type { SnapshotReader, SnapshotWriter } from './snapshot';
+
 export interface PhraseMatchTokenSpan {
   startTokenIndex: number;
   endTokenIndex: number; // inclusive
+  phrase: string; // the stored phrase, tokens joined by single spaces
 }
 
 interface PhraseTrieNode {
   children: Map<string, PhraseTrieNode>;
   isTerminal: boolean;
+  phrase?: string;
 }
 
 export class PhraseTrie {
-  private readonly root: PhraseTrieNode = { children: new Map(), isTerminal: false };
+  private root: PhraseTrieNode = { children: new Map(), isTerminal: false };
 
   insert(tokens: string[]): void {
     if (tokens.length === 0) return;
@@ -23,12 +27,53 @@ export class PhraseTrie {
       node = next;
     }
     node.isTerminal = true;
+    node.phrase = tokens.join(' ');
   }
 
   insertAll(phrases: string[][]): void {
     for (const p of phrases) this.insert(p);
   }
 
+  /** Writes the nodes in BFS order: child ranges, then tokens and terminal phrases as JSON. */
+  writeTo(writer: SnapshotWriter): void {
+    const nodes = [this.root];
+    const childStarts = [0];
+    const tokens: string[] = [];
+    const phrases: [number, string][] = [];
+    for (let k = 0; k < nodes.length; k++) {
+      for (const [token, child] of nodes[k].children) {
+        tokens.push(token);
+        nodes.push(child);
+      }
+      childStarts.push(nodes.length - 1);
+      if (nodes[k].isTerminal) phrases.push([k, nodes[k].phrase ?? '']);
+    }
+    writer.u32(Uint32Array.from(childStarts));
+    writer.json({ tokens, phrases });
+  }
+
+  static readFrom(reader: SnapshotReader): PhraseTrie {
+    const childStarts = reader.u32();
+    const { tokens, phrases } = reader.json<{ tokens: string[]; phrases: [number, string][] }>();
+    // As in `Trie.readFrom`: children of node k are nodes childStarts[k] + 1 .. childStarts[k + 1]
+    const nodes: PhraseTrieNode[] = Array.from({ length: tokens.length + 1 }, () => ({
+      children: new Map(),
+      isTerminal: false,
+    }));
+    for (let k = 0; k + 1 < childStarts.length; k++) {
+      for (let c = childStarts[k]; c < childStarts[k + 1]; c++) {
+        nodes[k].children.set(tokens[c], nodes[c + 1]);
+      }
+    }
+    for (const [index, phrase] of phrases) {
+      nodes[index].isTerminal = true;
+      nodes[index].phrase = phrase;
+    }
+    const trie = new PhraseTrie();
+    trie.root = nodes[0];
+    return trie;
+  }
+
   findAllMatchesForTokens(
     tokens: string[],
     stopwords?: Set<string>,
@@ -49,7 +94,7 @@ export class PhraseTrie {
           node = next;
           end = i;
           if (node.isTerminal) {
-            results.push({ startTokenIndex: start, endTokenIndex: end });
+            results.push({ startTokenIndex: start, endTokenIndex: end, phrase: node.phrase! });
             break; // earliest terminal match from this start
           }
         } else if (hasStop && stopwords!.has(t) && skipsUsed < maxSkipsBetweenTokens) {
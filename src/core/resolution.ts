@@ -0,0 +1,72 @@
+import { severityRank, type ProfanitySeverity } from './entries';
+
+export type MatchResolution =
+  | 'all-overlapping'
+  | 'leftmost-longest'
+  | 'non-overlapping-by-severity';
+
+export interface ResolvableMatch {
+  index: number;
+  length: number;
+  language: string;
+  severity: ProfanitySeverity;
+}
+
+/** Position order: index ascending, then longer spans first, then language code. */
+export function compareByPosition(a: ResolvableMatch, b: ResolvableMatch): number {
+  return a.index - b.index || b.length - a.length || a.language.localeCompare(b.language);
+}
+
+// Most severe first, then longer, then leftmost
+function compareBySeverity(a: ResolvableMatch, b: ResolvableMatch): number {
+  return (
+    severityRank(b.severity) - severityRank(a.severity) ||
+    b.length - a.length ||
+    compareByPosition(a, b)
+  );
+}
+
+/**
+ * Deduplicates matches (same index, length and language) and applies an
+ * overlap policy. Every policy returns matches in position order.
+ *
+ * - `all-overlapping`: keep everything, including nested spans ("fuck" inside "fucking").
+ * - `leftmost-longest`: scan left to right; at each start keep the longest span and
+ *   drop anything overlapping an already kept span.
+ * - `non-overlapping-by-severity`: keep the most severe spans first (ties: longer, then
+ *   leftmost), dropping anything overlapping a kept span.
+ */
+export function resolveMatches<T extends ResolvableMatch>(
+  matches: T[],
+  policy: MatchResolution,
+): T[] {
+  const seen = new Set<string>();
+  const unique: T[] = [];
+  for (const m of matches) {
+    const key = `${m.index}:${m.length}:${m.language}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push(m);
+  }
+
+  if (policy === 'all-overlapping') return unique.sort(compareByPosition);
+
+  if (policy === 'leftmost-longest') {
+    const kept: T[] = [];
+    let keptEnd = -1;
+    for (const m of unique.sort(compareByPosition)) {
+      if (m.index < keptEnd) continue;
+      kept.push(m);
+      keptEnd = m.index + m.length;
+    }
+    return kept;
+  }
+
+  const kept: T[] = [];
+  for (const m of unique.sort(compareBySeverity)) {
+    const end = m.index + m.length;
+    const overlaps = kept.some((k) => m.index < k.index + k.length && k.index < end);
+    if (!overlaps) kept.push(m);
+  }
+  return kept.sort(compareByPosition);
+}
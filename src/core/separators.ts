@@ -0,0 +1,156 @@
+import { codePointAt, isWordCharAt, isWordCharBefore } from './unicode';
+
+export interface SeparatorSkipping {
+  /**
+   * Which gaps may only join single-letter fragments ("f u c k" but not
+   * "glass hole"): gaps containing whitespace (default), every gap, or none.
+   */
+  singleLetters?: 'whitespace' | 'always' | 'never';
+  maxGap?: number; // separators skipped in a row; default 3
+  lineBreaks?: 'stop' | 'skip'; // whether a gap may contain a line break; default 'stop'
+}
+
+/** How a match may span separators: whether it holds, and which edges must not touch a word. */
+export interface GapCheck {
+  ok: boolean;
+  leftBoundary: boolean;
+  rightBoundary: boolean;
+}
+
+const DEFAULT_MAX_GAP = 3;
+
+const WHITESPACE_REGEX = /\s/u;
+
+const LINE_BREAK_REGEX = /[\n\r\u0085\u2028\u2029]/u;
+
+/**
+ * Decides which characters the exact matchers skip ("f.u.c.k") and which runs
+ * of them ("gaps") a match may span. Separators come from an explicit list
+ * and/or Unicode general categories (`Zs`, `Pd`, `P`, ...).
+ */
+export class SeparatorPolicy {
+  private readonly characters: Set<string>;
+  private readonly categories?: RegExp;
+  private readonly singleLetters: NonNullable<SeparatorSkipping['singleLetters']>;
+  private readonly maxGap: number;
+  private readonly stopAtLineBreaks: boolean;
+
+  constructor(
+    characters: Iterable<string> = [],
+    categories: readonly string[] = [],
+    skipping: SeparatorSkipping = {},
+  ) {
+    this.characters = new Set(characters);
+    if (categories.length > 0) {
+      try {
+        this.categories = new RegExp(`^[${categories.map((c) => `\\p{${c}}`).join('')}]$`, 'u');
+      } catch {
+        throw new RangeError(`SeparatorPolicy: unknown Unicode category in [${categories}]`);
+      }
+    }
+    this.singleLetters = skipping.singleLetters ?? 'whitespace';
+    this.maxGap = skipping.maxGap ?? DEFAULT_MAX_GAP;
+    if (!(this.maxGap >= 1)) {
+      throw new RangeError(`SeparatorPolicy: maxGap must be at least 1 (got ${this.maxGap})`);
+    }
+    this.stopAtLineBreaks = (skipping.lineBreaks ?? 'stop') === 'stop';
+  }
+
+  get isEmpty(): boolean {
+    return this.characters.size === 0 && !this.categories;
+  }
+
+  /** Whether `ch` (one code point) is a separator. */
+  has(ch: string): boolean {
+    return this.characters.has(ch) || (this.categories?.test(ch) ?? false);
+  }
+
+  /**
+   * Whether a match over `text[start, end)` may span the gaps inside it. Each
+   * gap must fit `maxGap` and `lineBreaks`; where single letters are required,
+   * the fragments on both sides of the gap must be one code point, and a
+   * fragment at the edge of the match must not continue into a longer word.
+   */
+  allows(text: string, start: number, end: number): boolean {
+    const gaps: string[] = [];
+    let gap = '';
+    for (let i = start; i < end; ) {
+      const ch = codePointAt(text, i);
+      if (this.has(ch)) {
+        gap += ch;
+      } else {
+        gaps.push(gap);
+        gap = '';
+      }
+      i += ch.length;
+    }
+    const check = this.checkGaps(gaps);
+    return (
+      check.ok &&
+      !(check.leftBoundary && isWordCharBefore(text, start)) &&
+      !(check.rightBoundary && isWordCharAt(text, end))
+    );
+  }
+
+  /**
+   * `allows` for callers without the surrounding text (streams): `gaps[k]` holds
+   * the separators skipped right before the k-th matched code point (the first
+   * is ignored). The boundary flags tell which edges must not touch a word.
+   */
+  checkGaps(gaps: readonly string[]): GapCheck {
+    const check: GapCheck = { ok: true, leftBoundary: false, rightBoundary: false };
+    let fragment = 1; // code points since the last gap
+    let first = true;
+    let singleBefore = false; // the gap before this fragment requires single letters
+    for (let k = 1; k < gaps.length; k++) {
+      const gap = gaps[k];
+      if (!gap) {
+        fragment += 1;
+        continue;
+      }
+      const single = this.requiresSingleLetters(gap);
+      if (
+        [...gap].length > this.maxGap ||
+        (this.stopAtLineBreaks && LINE_BREAK_REGEX.test(gap)) ||
+        ((single || singleBefore) && fragment !== 1)
+      ) {
+        return { ...check, ok: false };
+      }
+      if (single && first) check.leftBoundary = true;
+      first = false;
+      singleBefore = single;
+      fragment = 1;
+    }
+    if (singleBefore) {
+      if (fragment !== 1) return { ...check, ok: false };
+      check.rightBoundary = true;
+    }
+    return check;
+  }
+
+  /**
+   * `word` without its separators, as the matchers see text, and the offsets of
+   * the code points that followed them ("blow job" -> "blowjob", [4]).
+   */
+  strip(word: string): { pattern: string; gaps: number[] } {
+    let pattern = '';
+    const gaps: number[] = [];
+    let count = 0;
+    for (const ch of word) {
+      if (this.has(ch)) {
+        if (count > 0 && gaps[gaps.length - 1] !== count) gaps.push(count);
+        continue;
+      }
+      pattern += ch;
+      count += 1;
+    }
+    // A trailing gap ("13.") is not inside any match
+    if (gaps[gaps.length - 1] === count) gaps.pop();
+    return { pattern, gaps };
+  }
+
+  private requiresSingleLetters(gap: string): boolean {
+    if (this.singleLetters === 'whitespace') return WHITESPACE_REGEX.test(gap);
+    return this.singleLetters === 'always';
+  }
+}
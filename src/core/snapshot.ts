@@ -0,0 +1,98 @@
+/** Bumped whenever the layout of any section changes; older snapshots are rejected. */
+export const SNAPSHOT_VERSION = 1;
+
+const MAGIC = 0x50425343; // "PBSC"
+const BYTE_SWAPPED_MAGIC = 0x43534250;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Writes a compiled snapshot: a magic number and `SNAPSHOT_VERSION`, then a
+ * sequence of sections, each a byte length followed by JSON text or the raw
+ * contents of a `Uint32Array`, padded to 4 bytes so the reader can view the
+ * arrays in place. Sections carry no tags: readers consume them in the order
+ * they were written. Numbers use the platform's byte order, which the magic
+ * number reveals.
+ */
+export class SnapshotWriter {
+  private readonly chunks: Uint8Array[] = [];
+  private byteLength = 0;
+
+  constructor() {
+    this.push(new Uint8Array(Uint32Array.of(MAGIC, SNAPSHOT_VERSION).buffer));
+  }
+
+  json(value: unknown): void {
+    this.section(encoder.encode(JSON.stringify(value)));
+  }
+
+  u32(values: Uint32Array): void {
+    this.section(new Uint8Array(values.buffer, values.byteOffset, values.byteLength));
+  }
+
+  finish(): ArrayBuffer {
+    const bytes = new Uint8Array(this.byteLength);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return bytes.buffer;
+  }
+
+  private section(data: Uint8Array): void {
+    this.push(new Uint8Array(Uint32Array.of(data.byteLength).buffer));
+    this.push(data);
+    const padding = (4 - (data.byteLength % 4)) % 4;
+    if (padding > 0) this.push(new Uint8Array(padding));
+  }
+
+  private push(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.byteLength += chunk.byteLength;
+  }
+}
+
+/** Reads the sections of a `SnapshotWriter` in order. Malformed input throws a RangeError. */
+export class SnapshotReader {
+  private offset = 8;
+
+  constructor(private readonly buffer: ArrayBuffer) {
+    if (buffer.byteLength < 8 || buffer.byteLength % 4 !== 0) {
+      throw new RangeError('Snapshot: not a compiled ProfanityBuster snapshot');
+    }
+    const [magic, version] = new Uint32Array(buffer, 0, 2);
+    if (magic === BYTE_SWAPPED_MAGIC) {
+      throw new RangeError('Snapshot: written on a platform with a different byte order');
+    }
+    if (magic !== MAGIC) throw new RangeError('Snapshot: not a compiled ProfanityBuster snapshot');
+    if (version !== SNAPSHOT_VERSION) {
+      throw new RangeError(`Snapshot: format version ${version}, expected ${SNAPSHOT_VERSION}`);
+    }
+  }
+
+  json<T>(): T {
+    return JSON.parse(decoder.decode(this.section())) as T;
+  }
+
+  /** A view into the snapshot's buffer, not a copy. */
+  u32(): Uint32Array {
+    const bytes = this.section();
+    if (bytes.byteLength % 4 !== 0) throw new RangeError('Snapshot: truncated or corrupt');
+    return new Uint32Array(this.buffer, bytes.byteOffset, bytes.byteLength / 4);
+  }
+
+  private section(): Uint8Array {
+    if (this.offset + 4 > this.buffer.byteLength) {
+      throw new RangeError('Snapshot: truncated or corrupt');
+    }
+    const length = new Uint32Array(this.buffer, this.offset, 1)[0];
+    const start = this.offset + 4;
+    if (start + length > this.buffer.byteLength) {
+      throw new RangeError('Snapshot: truncated or corrupt');
+    }
+    this.offset = start + length + ((4 - (length % 4)) % 4);
+    return new Uint8Array(this.buffer, start, length);
+  }
+}
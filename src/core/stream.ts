@@ -0,0 +1,201 @@
+import type { Automaton } from './aho';
+import type { AllowlistStreamScanner } from './allowlist';
+import { isOwnSpacing } from './entries';
+import {
+  normalizeWithOffsets,
+  stablePrefixLength,
+  type NormalizationOptions,
+} from './normalization';
+import type { SeparatorPolicy } from './separators';
+import { isWordChar } from './unicode';
+
+export interface StreamSanitizerOptions {
+  automaton: Automaton;
+  normalization: NormalizationOptions;
+  wholeWordsOnly: boolean;
+  separators?: SeparatorPolicy;
+  allowlist?: AllowlistStreamScanner;
+  /** Filters matched dictionary terms (severity, categories). Defaults to accepting all. */
+  accept?: (term: string) => boolean;
+  /** Masks one merged profane span of source text. */
+  mask: (segment: string) => string;
+}
+
+interface FedChar {
+  start: number; // source span of the normalized code point
+  end: number;
+  before: string; // normalized code point preceding it (for whole-word checks)
+  gap: string; // separators skipped right before it
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface PendingMatch extends Span {
+  awaitingRight: boolean; // whole-word or spaced-out-letter check still needs the next code point
+}
+
+/**
+ * Incremental sanitizer for text that arrives in chunks (chat messages, LLM
+ * token streams). Chunks are normalized and fed through the Aho–Corasick
+ * automaton one code point at a time; the automaton state survives between
+ * chunks, so "fu" + "ck" is caught like "fuck".
+ *
+ * Text is held back only while it could still become part of a match:
+ * - the prefix of a pattern the automaton is currently inside (its depth),
+ * - an allowlisted word that might still cover a match ("ass" in "assassin"),
+ * - a match waiting for the next code point to pass a whole-word check,
+ * - the last cluster of a chunk, since combining marks may follow it, and a
+ *   possibly incomplete substitution sequence ("|" before "<").
+ * Everything before that point is masked and returned from `write`.
+ * Offsets are absolute positions in the concatenated stream (UTF-16 units).
+ */
+export class StreamSanitizer {
+  private buffer = ''; // source text not yet emitted
+  private emitted = 0; // stream offset of buffer[0]
+  private processed = 0; // stream offset up to which text has been normalized
+  private state = 0;
+  private window: FedChar[] = []; // source spans of the automaton's current prefix
+  private previous = '';
+  private gap = '';
+  private pending: PendingMatch[] = [];
+  private masks: Span[] = []; // merged, sorted, not yet emitted
+  private ended = false;
+
+  constructor(private readonly options: StreamSanitizerOptions) {}
+
+  /** Feeds a chunk and returns the sanitized text that is safe to emit so far. */
+  write(chunk: string): string {
+    if (this.ended) throw new Error('StreamSanitizer: write() after end()');
+    if (!chunk) return '';
+    this.buffer += chunk;
+    const tail = this.buffer.slice(this.processed - this.emitted);
+    this.consume(tail.slice(0, stablePrefixLength(tail, this.options.normalization)));
+    return this.drain();
+  }
+
+  /** Flushes everything still held back. The sanitizer cannot be written to afterwards. */
+  end(): string {
+    if (this.ended) return '';
+    this.consume(this.buffer.slice(this.processed - this.emitted));
+    // End of stream is a word boundary
+    for (const match of this.pending) match.awaitingRight = false;
+    this.options.allowlist?.finish();
+    this.ended = true;
+    return this.drain();
+  }
+
+  private consume(text: string): void {
+    if (!text) return;
+    const base = this.processed;
+    const normalized = normalizeWithOffsets(text, this.options.normalization);
+    for (let k = 0; k < normalized.text.length; ) {
+      const ch = String.fromCodePoint(normalized.text.codePointAt(k)!);
+      this.step(ch, base + normalized.starts[k], base + normalized.ends[k + ch.length - 1]);
+      k += ch.length;
+    }
+    this.processed = base + text.length;
+  }
+
+  private step(ch: string, start: number, end: number): void {
+    const { automaton, wholeWordsOnly, separators, allowlist, accept } = this.options;
+    // Matches waiting for a word boundary (whole-word mode, spaced-out letters)
+    const boundary = !isWordChar(ch);
+    this.pending = this.pending.filter((m) => !m.awaitingRight || boundary);
+    for (const match of this.pending) match.awaitingRight = false;
+    allowlist?.push(ch, start, end);
+
+    // Separators are skipped so "f.u.c.k" spans them, as in `findAllMatches`
+    if (separators?.has(ch)) {
+      this.previous = ch;
+      this.gap += ch;
+      return;
+    }
+    this.state = automaton.next(this.state, ch);
+    this.window.push({ start, end, before: this.previous, gap: this.gap });
+    this.previous = ch;
+    this.gap = '';
+
+    for (const { length, term, boundary, gaps } of automaton.outputsAt(this.state)) {
+      const matched = this.window.slice(this.window.length - length);
+      const first = matched[0];
+      if (accept && !accept(term)) continue;
+      const mode = boundary ?? (wholeWordsOnly ? 'whole' : 'substring');
+      if (mode !== 'substring' && isWordChar(first.before)) continue;
+      let awaitingRight = mode === 'whole';
+      const offsets = matched.flatMap((c, k) => (k > 0 && c.gap ? [k] : []));
+      if (separators && offsets.length > 0 && !isOwnSpacing(gaps, offsets)) {
+        const check = separators.checkGaps(matched.map((c) => c.gap));
+        if (!check.ok || (check.leftBoundary && isWordChar(first.before))) continue;
+        if (check.rightBoundary) awaitingRight = true;
+      }
+      this.pending.push({ start: first.start, end, awaitingRight });
+    }
+    const depth = automaton.depthOf(this.state);
+    if (this.window.length > depth) this.window.splice(0, this.window.length - depth);
+  }
+
+  private drain(): string {
+    const { allowlist } = this.options;
+    const allowLive = this.ended ? Infinity : (allowlist?.liveStart() ?? Infinity);
+
+    // A match is final once no allowlisted word that could cover it is still open
+    const open: PendingMatch[] = [];
+    for (const match of this.pending) {
+      if (match.awaitingRight || allowLive <= match.start) {
+        open.push(match);
+      } else if (!allowlist?.covers(match.start, match.end - match.start)) {
+        this.addMask(match);
+      }
+    }
+    this.pending = open;
+
+    const streamEnd = this.emitted + this.buffer.length;
+    let safe = streamEnd;
+    if (!this.ended) {
+      safe = Math.min(this.processed, allowLive, this.window[0]?.start ?? Infinity);
+      for (const match of open) safe = Math.min(safe, match.start);
+      // Never split a mask: later matches may still extend it
+      for (const mask of this.masks) {
+        if (mask.start < safe && safe < mask.end) safe = mask.start;
+      }
+    }
+    if (safe <= this.emitted) return '';
+
+    let output = '';
+    let cursor = this.emitted;
+    while (this.masks.length > 0 && this.masks[0].end <= safe) {
+      const mask = this.masks.shift()!;
+      output +=
+        this.slice(cursor, mask.start) + this.options.mask(this.slice(mask.start, mask.end));
+      cursor = mask.end;
+    }
+    output += this.slice(cursor, safe);
+    this.buffer = this.buffer.slice(safe - this.emitted);
+    this.emitted = safe;
+    allowlist?.discardBefore(safe);
+    return output;
+  }
+
+  // Merges like `sanitize`: overlapping spans are masked once, as a whole
+  private addMask(span: Span): void {
+    let { start, end } = span;
+    const kept: Span[] = [];
+    for (const mask of this.masks) {
+      if (mask.start < end && start < mask.end) {
+        start = Math.min(start, mask.start);
+        end = Math.max(end, mask.end);
+      } else {
+        kept.push(mask);
+      }
+    }
+    kept.push({ start, end });
+    this.masks = kept.sort((a, b) => a.start - b.start);
+  }
+
+  private slice(start: number, end: number): string {
+    return this.buffer.slice(start - this.emitted, end - this.emitted);
+  }
+}
@@ -0,0 +1,109 @@
+// Alphabets laid out as 26 consecutive code points: [first code point, plain letter it stands for]
+const ALPHABETS: [number, string][] = [
+  [0xff21, 'A'], // fullwidth
+  [0xff41, 'a'],
+  [0x24b6, 'A'], // circled
+  [0x24d0, 'a'],
+  [0x249c, 'a'], // parenthesized
+  [0x1f130, 'A'], // squared
+  [0x1f150, 'A'], // negative circled
+  [0x1f170, 'A'], // negative squared
+  [0x1f1e6, 'A'], // regional indicators (flag letters)
+];
+
+// Digits laid out as 10 consecutive code points
+const DIGITS: number[] = [
+  0xff10, // fullwidth
+  0x1d7ce, // mathematical bold, double-struck, sans-serif, sans-serif bold, monospace
+  0x1d7d8,
+  0x1d7e2,
+  0x1d7ec,
+  0x1d7f6,
+];
+
+// Mathematical Alphanumeric Symbols: 13 styles (bold, italic, script, fraktur,
+// double-struck, sans-serif, monospace, ...) of A-Z followed by a-z. Letters
+// missing from the block live in Letterlike Symbols and are listed below.
+const MATH_LETTERS_START = 0x1d400;
+const MATH_LETTERS_END = 0x1d6a3;
+
+const SINGLE_LETTERS: Readonly<Record<string, string>> = Object.freeze({
+  // Letterlike Symbols filling the holes of the math alphabets
+  '\u210e': 'h', // planck constant
+  '\u212c': 'B', // script capital b
+  '\u2130': 'E', // script capital e
+  '\u2131': 'F', // script capital f
+  '\u210b': 'H', // script capital h
+  '\u2110': 'I', // script capital i
+  '\u2112': 'L', // script capital l
+  '\u2133': 'M', // script capital m
+  '\u211b': 'R', // script capital r
+  '\u212f': 'e', // script small e
+  '\u210a': 'g', // script small g
+  '\u2134': 'o', // script small o
+  '\u212d': 'C', // black-letter capital c
+  '\u210c': 'H', // black-letter capital h
+  '\u2111': 'I', // black-letter capital i
+  '\u211c': 'R', // black-letter capital r
+  '\u2128': 'Z', // black-letter capital z
+  '\u2102': 'C', // double-struck capital c
+  '\u210d': 'H', // double-struck capital h
+  '\u2115': 'N', // double-struck capital n
+  '\u2119': 'P', // double-struck capital p
+  '\u211a': 'Q', // double-struck capital q
+  '\u211d': 'R', // double-struck capital r
+  '\u2124': 'Z', // double-struck capital z
+  // Small capitals
+  '\u1d00': 'a', // latin letter small capital a
+  '\u0299': 'b', // latin letter small capital b
+  '\u1d04': 'c', // latin letter small capital c
+  '\u1d05': 'd', // latin letter small capital d
+  '\u1d07': 'e', // latin letter small capital e
+  '\ua730': 'f', // latin letter small capital f
+  '\u0262': 'g', // latin letter small capital g
+  '\u029c': 'h', // latin letter small capital h
+  '\u026a': 'i', // latin letter small capital i
+  '\u1d0a': 'j', // latin letter small capital j
+  '\u1d0b': 'k', // latin letter small capital k
+  '\u029f': 'l', // latin letter small capital l
+  '\u1d0d': 'm', // latin letter small capital m
+  '\u0274': 'n', // latin letter small capital n
+  '\u1d0f': 'o', // latin letter small capital o
+  '\u1d18': 'p', // latin letter small capital p
+  '\ua7af': 'q', // latin letter small capital q
+  '\u0280': 'r', // latin letter small capital r
+  '\ua731': 's', // latin letter small capital s
+  '\u1d1b': 't', // latin letter small capital t
+  '\u1d1c': 'u', // latin letter small capital u
+  '\u1d20': 'v', // latin letter small capital v
+  '\u1d21': 'w', // latin letter small capital w
+  '\u028f': 'y', // latin letter small capital y
+  '\u1d22': 'z', // latin letter small capital z
+});
+
+/** The plain letter or digit a styled ("font") code point stands for, if any. */
+export function foldStyledLetter(ch: string): string | undefined {
+  const single = SINGLE_LETTERS[ch];
+  if (single) return single;
+  const cp = ch.codePointAt(0)!;
+  if (cp < 0x249c) return undefined;
+  if (cp >= MATH_LETTERS_START && cp <= MATH_LETTERS_END) {
+    const index = (cp - MATH_LETTERS_START) % 52;
+    return String.fromCharCode(index < 26 ? 0x41 + index : 0x61 + index - 26);
+  }
+  for (const [first, letter] of ALPHABETS) {
+    if (cp >= first && cp < first + 26)
+      return String.fromCharCode(letter.charCodeAt(0) + cp - first);
+  }
+  for (const first of DIGITS) {
+    if (cp >= first && cp < first + 10) return String.fromCharCode(0x30 + cp - first);
+  }
+  return undefined;
+}
+
+/** Folds every styled letter or digit in `text` to its plain form. */
+export function foldStyledLetters(text: string): string {
+  let out = '';
+  for (const ch of text) out += foldStyledLetter(ch) ?? ch;
+  return out;
+}
@@ -1,89 +1,205 @@
+import { fitsBoundary, isOwnSpacing, type BoundaryMode, type PatternOptions } from './entries';
+import type { ConfusableBranching } from './normalization';
+import type { SeparatorPolicy } from './separators';
+import type { SnapshotReader, SnapshotWriter } from './snapshot';
+import { codePointAt, isWordCharBefore } from './unicode';
+
 export interface TrieMatch {
   index: number;
   length: number;
+  term: string; // dictionary term attached to the matched terminal
+}
+
+// An output in a snapshot: node index, term, boundary, spacings
+type TerminalRecord = [number, string, BoundaryMode | null, (readonly number[])[] | null];
+
+// An entry ending at a node; several entries (or forms of them) may share one
+interface TrieOutput {
+  term: string;
+  boundary?: BoundaryMode; // unset: the wholeWordsOnly of the search
+  spacings?: (readonly number[])[]; // PatternOptions.gaps of each pattern of the entry
 }
 
 interface TrieNode {
   children: Map<string, TrieNode>;
-  isTerminal: boolean;
+  outputs?: TrieOutput[]; // set on terminals
 }
 
-const WORD_CHAR = /[\p{L}\p{N}_]/u;
-
 export class Trie {
-  private readonly root: TrieNode = { children: new Map(), isTerminal: false };
+  private root: TrieNode = { children: new Map() };
+  // Whether any terminal may match mid-word even when searching whole words only
+  private hasSubstringTerminals = false;
 
-  insert(word: string): void {
+  insert(word: string, term: string = word, options: PatternOptions = {}): void {
     if (!word) return;
     let node = this.root;
     for (const ch of word) {
       let next = node.children.get(ch);
       if (!next) {
-        next = { children: new Map(), isTerminal: false };
+        next = { children: new Map() };
         node.children.set(ch, next);
       }
       node = next;
     }
-    node.isTerminal = true;
+    if (!node.outputs) node.outputs = [];
+    let output = node.outputs.find((o) => o.term === term && o.boundary === options.boundary);
+    if (!output) {
+      output = { term, boundary: options.boundary };
+      node.outputs.push(output);
+    }
+    if (options.gaps) output.spacings = [...(output.spacings ?? []), options.gaps];
+    if (options.boundary === 'substring') this.hasSubstringTerminals = true;
   }
 
   insertAll(words: Iterable<string>): void {
     for (const w of words) this.insert(w);
   }
 
+  /**
+   * Writes the nodes in BFS order: child ranges and code-point labels as
+   * `Uint32Array`s, terminals as JSON. `readFrom` restores the same trie.
+   */
+  writeTo(writer: SnapshotWriter): void {
+    const nodes = [this.root];
+    const childStarts = [0];
+    const labels: number[] = [];
+    const terminals: TerminalRecord[] = [];
+    for (let k = 0; k < nodes.length; k++) {
+      const node = nodes[k];
+      for (const [ch, child] of node.children) {
+        labels.push(ch.codePointAt(0)!);
+        nodes.push(child);
+      }
+      childStarts.push(nodes.length - 1);
+      for (const { term, boundary, spacings } of node.outputs ?? []) {
+        terminals.push([k, term, boundary ?? null, spacings ?? null]);
+      }
+    }
+    writer.u32(Uint32Array.from(childStarts));
+    writer.u32(Uint32Array.from(labels));
+    writer.json(terminals);
+  }
+
+  static readFrom(reader: SnapshotReader): Trie {
+    const childStarts = reader.u32();
+    const labels = reader.u32();
+    const terminals = reader.json<TerminalRecord[]>();
+    // Children of node k are nodes childStarts[k] + 1 .. childStarts[k + 1]
+    const nodes: TrieNode[] = Array.from({ length: labels.length + 1 }, () => ({
+      children: new Map(),
+    }));
+    for (let k = 0; k + 1 < childStarts.length; k++) {
+      for (let c = childStarts[k]; c < childStarts[k + 1]; c++) {
+        nodes[k].children.set(String.fromCodePoint(labels[c]), nodes[c + 1]);
+      }
+    }
+    const trie = new Trie();
+    trie.root = nodes[0];
+    for (const [index, term, boundary, spacings] of terminals) {
+      const output: TrieOutput = { term };
+      if (boundary) output.boundary = boundary;
+      if (spacings) output.spacings = spacings;
+      const node = nodes[index];
+      if (!node.outputs) node.outputs = [];
+      node.outputs.push(output);
+      if (boundary === 'substring') trie.hasSubstringTerminals = true;
+    }
+    return trie;
+  }
+
   findAllMatches(
     text: string,
     wholeWordsOnly: boolean,
-    separatorsToIgnore?: Set<string>,
+    separators?: SeparatorPolicy,
+    branching?: ConfusableBranching,
   ): TrieMatch[] {
     const matches: TrieMatch[] = [];
     const length = text.length;
-    const ignoreSeparators = separatorsToIgnore && separatorsToIgnore.size > 0;
+    const ignoreSeparators = separators && !separators.isEmpty;
+    const defaultBoundary: BoundaryMode = wholeWordsOnly ? 'whole' : 'substring';
 
-    for (let startIndex = 0; startIndex < length; startIndex++) {
-      let node = this.root;
+    // Walk by code point (as insert() does) so astral characters match whole
+    for (
+      let startIndex = 0;
+      startIndex < length;
+      startIndex += codePointAt(text, startIndex).length
+    ) {
+      // Nodes reachable under the readings tried so far (one unless branching)
+      const frontier: TrieNode[] = [this.root];
 
-      const startChar = text[startIndex];
-      if (ignoreSeparators && separatorsToIgnore!.has(startChar)) continue;
+      const startChar = codePointAt(text, startIndex);
+      if (ignoreSeparators && separators!.has(startChar)) continue;
 
-      if (wholeWordsOnly && startIndex > 0 && WORD_CHAR.test(text[startIndex - 1])) {
+      if (wholeWordsOnly && !this.hasSubstringTerminals && isWordCharBefore(text, startIndex)) {
         continue;
       }
 
-      let lastTerminalEndIndex = -1;
+      const gaps: number[] = []; // offsets of the matched code points that follow a gap
+      let count = 0;
       let j = startIndex;
       while (j < length) {
-        const ch = text[j];
-        if (ignoreSeparators && separatorsToIgnore!.has(ch)) {
-          j += 1;
+        const ch = codePointAt(text, j);
+        if (ignoreSeparators && separators!.has(ch)) {
+          if (gaps[gaps.length - 1] !== count) gaps.push(count);
+          j += ch.length;
           continue;
         }
-        const next = node.children.get(ch);
-        if (!next) break;
-        node = next;
-        if (node.isTerminal) {
-          // Boundaries based on last real character matched
-          if (wholeWordsOnly) {
-            const endIndex = j + 1;
-            if (endIndex < length && WORD_CHAR.test(text[endIndex])) {
-              // Not a word boundary; continue search
-            } else {
-              lastTerminalEndIndex = j;
+        const alternatives = branching?.alternatives.get(j);
+        if (!alternatives && frontier.length === 1) {
+          const next = frontier[0].children.get(ch);
+          if (!next) break;
+          frontier[0] = next;
+        } else {
+          const next = advance(frontier, ch, alternatives ?? [], branching?.maxBranches ?? 1);
+          if (next.length === 0) break;
+          frontier.splice(0, frontier.length, ...next);
+        }
+        j += ch.length;
+        count += 1;
+        // Every terminal on the walk is reported, so "fucking" also yields "fuck"
+        // (the span includes separators skipped inside it); each entry ending
+        // there is checked on its own, and several readings may reach the same one
+        const seen = frontier.length > 1 ? new Set<string>() : undefined;
+        for (const node of frontier) {
+          for (const { term, boundary, spacings } of node.outputs ?? []) {
+            // Boundaries based on last real character matched
+            if (!fitsBoundary(boundary ?? defaultBoundary, text, startIndex, j)) continue;
+            if (
+              gaps.length > 0 &&
+              !spacings?.some((own) => isOwnSpacing(own, gaps)) &&
+              !separators!.allows(text, startIndex, j)
+            ) {
+              continue; // Spans a gap the separator rules reject ("glass hole")
+            }
+            if (seen) {
+              if (seen.has(term)) continue;
+              seen.add(term);
             }
-          } else {
-            lastTerminalEndIndex = j;
+            matches.push({ index: startIndex, length: j - startIndex, term });
           }
         }
-        j += 1;
-      }
-
-      if (lastTerminalEndIndex !== -1) {
-        // Include separators within span from startIndex to lastTerminalEndIndex
-        const spanLength = lastTerminalEndIndex - startIndex + 1;
-        matches.push({ index: startIndex, length: spanLength });
       }
     }
 
     return matches;
   }
 }
+
+// Children of `frontier` under `ch` or one of its alternatives, primary first, capped
+function advance(
+  frontier: TrieNode[],
+  ch: string,
+  alternatives: readonly string[],
+  maxBranches: number,
+): TrieNode[] {
+  const next: TrieNode[] = [];
+  for (const node of frontier) {
+    for (const candidate of [ch, ...alternatives]) {
+      const child = node.children.get(candidate);
+      if (!child || next.includes(child)) continue;
+      next.push(child);
+      if (next.length >= maxBranches) return next;
+    }
+  }
+  return next;
+}
@@ -0,0 +1,71 @@
+// Code-point and grapheme helpers shared by the matchers, tokenizer and masking.
+// Offsets stay in UTF-16 code units (JS string indices) so callers can
+// `text.slice(index, index + length)`; iteration never splits a surrogate pair.
+
+// Letters, digits, combining marks (Devanagari/Thai vowel signs) and underscore
+export const WORD_CHAR_CLASS = '[\\p{L}\\p{N}\\p{M}_]';
+
+const WORD_CHAR = new RegExp(`^${WORD_CHAR_CLASS}`, 'u');
+const TOKEN_REGEX = new RegExp(`${WORD_CHAR_CLASS}+`, 'gu');
+
+export interface TextToken {
+  value: string;
+  start: number;
+  endExclusive: number;
+}
+
+// Approximates extended grapheme clusters without Intl.Segmenter: CRLF, regional
+// indicator pairs (flags), and a code point followed by marks (incl. variation
+// selectors), emoji skin-tone modifiers, tag characters or ZWJ-joined code points.
+const GRAPHEME_REGEX =
+  /\r\n|\p{Regional_Indicator}{2}|[\s\S](?:[\p{M}\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]|\u200D[\s\S])*/gu;
+
+/** The code point starting at `index` (one or two code units). */
+export function codePointAt(text: string, index: number): string {
+  const code = text.charCodeAt(index);
+  if (code >= 0xd800 && code <= 0xdbff && index + 1 < text.length) {
+    const next = text.charCodeAt(index + 1);
+    if (next >= 0xdc00 && next <= 0xdfff) return text.slice(index, index + 2);
+  }
+  return text.charAt(index);
+}
+
+/** The code point ending just before `index`, or '' at the start of the text. */
+export function codePointBefore(text: string, index: number): string {
+  if (index <= 0) return '';
+  const code = text.charCodeAt(index - 1);
+  if (code >= 0xdc00 && code <= 0xdfff && index >= 2) {
+    const prev = text.charCodeAt(index - 2);
+    if (prev >= 0xd800 && prev <= 0xdbff) return text.slice(index - 2, index);
+  }
+  return text.charAt(index - 1);
+}
+
+export function isWordChar(ch: string): boolean {
+  return ch !== '' && WORD_CHAR.test(ch);
+}
+
+/** True when a word character ends right before `index`. */
+export function isWordCharBefore(text: string, index: number): boolean {
+  return isWordChar(codePointBefore(text, index));
+}
+
+/** True when a word character starts at `index`. */
+export function isWordCharAt(text: string, index: number): boolean {
+  return index < text.length && isWordChar(codePointAt(text, index));
+}
+
+export function splitGraphemes(text: string): string[] {
+  return text.match(GRAPHEME_REGEX) ?? [];
+}
+
+/** Runs of word characters with their code-unit offsets. */
+export function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  for (const m of text.matchAll(TOKEN_REGEX)) {
+    const value = m[0];
+    const start = m.index ?? 0;
+    tokens.push({ value, start, endExclusive: start + value.length });
+  }
+  return tokens;
+}
@@ -1,13 +1,73 @@
-import { AhoCorasick } from './core/aho';
+import { AhoCorasick, type AhoMatch, type Automaton } from './core/aho';
+import { Allowlist, type AllowlistEntry, type AllowlistScan } from './core/allowlist';
+import { CompactAutomaton } from './core/compact';
+import { findMixedScriptTokens, type SuspiciousToken } from './core/confusables';
+import {
+  findEncodedReadings,
+  readingSourceSpan,
+  type DecodingSettings,
+  type EncodedReading,
+  type EncodedReadingKind,
+} from './core/decoding';
+import { COST_EPSILON, EditCostModel, type EditDistanceSettings } from './core/editDistance';
+import {
+  DEFAULT_ENTRY_METADATA,
+  resolveEntryMetadata,
+  severityRank,
+  toWordEntry,
+  type DictionaryEntry,
+  type EntryMetadata,
+  type ProfanityCategory,
+  type ProfanitySeverity,
+  type WordEntry,
+} from './core/entries';
+import { FuzzyIndex } from './core/fuzzy';
 import { inferLikelyLanguageCodes } from './core/langAutoDetect';
+import { inflect, mapMorphologyRules, type MorphologyRules } from './core/morphology';
 import {
-  normalizeForDetection,
+  codePointRuns,
+  DEFAULT_SUBSTITUTIONS,
+  describeNormalization,
+  MARK_SCRIPTS,
+  normalizeWithOffsets,
   normalizeWord as normalizeWordWithOptions,
+  toSourceSpan,
+  type ConfusableBranching,
+  type NormalizationChange,
+  type NormalizationOptions,
+  type NormalizedText,
 } from './core/normalization';
 import { PhraseTrie } from './core/phraseTrie';
+import { resolveMatches, type MatchResolution } from './core/resolution';
+import { SeparatorPolicy, type SeparatorSkipping } from './core/separators';
+import { SnapshotReader, SnapshotWriter } from './core/snapshot';
+import { StreamSanitizer } from './core/stream';
 import { Trie } from './core/trie';
+import { codePointAt, splitGraphemes, tokenize } from './core/unicode';
 import { languageWordMap, allLanguageCodes } from './languages';
+import { languageAllowlists } from './languages/allowlists';
 import { EN_WORDS } from './languages/en';
+import { languageEntryMetadata } from './languages/metadata';
+import { languageMorphology } from './languages/morphology';
+import { languageMarkScripts } from './languages/scripts';
+
+export type {
+  BoundaryMode,
+  DictionaryEntry,
+  EntryMetadata,
+  ProfanityCategory,
+  ProfanitySeverity,
+  WordEntry,
+} from './core/entries';
+export type { AllowlistEntry } from './core/allowlist';
+export type { ConfusableScript, SuspiciousToken } from './core/confusables';
+export type { DecodingSettings, EncodedReadingKind } from './core/decoding';
+export type { EditCosts, EditDistanceSettings, KeyboardLayout } from './core/editDistance';
+export type { MorphologyRules } from './core/morphology';
+export type { MatchResolution } from './core/resolution';
+export type { NormalizationChange } from './core/normalization';
+export type { SeparatorSkipping } from './core/separators';
+export type { StreamSanitizer } from './core/stream';
 
 export interface MaskingConfig {
   enabled: boolean;
@@ -18,23 +78,47 @@ export interface MaskingConfig {
 }
 
 export interface DetectionSettings {
-  levenshteinDistance: number;
+  levenshteinDistance: number; // fuzzy budget in edit-cost units; may be fractional (e.g. 0.5)
   caseSensitive: boolean;
   wholeWordsOnly: boolean;
-  customWords: string[];
+  customWords: DictionaryEntry[];
   confusableMapping?: boolean;
+  maxConfusableBranches?: number; // readings of ambiguous look-alikes ('1' = i or l) tried at once; 1 disables
+  substitutions?: Record<string, string>; // multi-character leetspeak applied with confusableMapping, e.g. { 'ph': 'f' }
+  useDefaultSubstitutions?: boolean; // also apply the built-in table ('|<' -> 'k', '()' -> 'o', ...)
   ignoreSeparators?: string[]; // characters to skip during matching, e.g. [' ', '.', '-', '_', '*']
+  separatorCategories?: string[]; // Unicode general categories skipped too, e.g. ['Zs', 'Pd']
+  separatorSkipping?: SeparatorSkipping; // which gaps a match may span ("f u c k" but not "glass hole")
   stripDiacritics?: boolean;
   useNFKC?: boolean;
+  stripMarks?: boolean; // strip every combining mark (zalgo); marks of Arabic, Devanagari, Thai, ... letters are kept
+  stripMarksLanguages?: string[]; // also strip the marks of these languages' scripts, e.g. ['hi']
+  foldStyledLetters?: boolean; // fold fullwidth, circled, math bold, small-caps and flag letters ("\uff46\uff55\uff43\uff4b")
+  foldCrossScript?: boolean; // fold Cyrillic/Greek/Armenian look-alikes to Latin ("fu\u0441k" with a Cyrillic "\u0441")
+  collapseRepeats?: boolean; // runs of 3+ identical letters match as one ("fuuuck", "shiiit")
   enableInflections?: boolean;
-  inflectionSuffixes?: string[];
-  allowlist?: string[];
+  inflectionSuffixes?: string[]; // replaces the suffixes of every language's rules
+  morphology?: Record<string, MorphologyRules>; // inflection rules per language code, replacing the pack's
+  allowlist?: AllowlistEntry[]; // words, `*` wildcards or RegExps that suppress overlapping matches
+  useDefaultAllowlist?: boolean; // also apply the built-in allowlist of each active pack
   tokenBoundedFuzzy?: boolean;
+  decoding?: DecodingSettings; // HTML entities, percent-encoding and opt-in rot13/base64 readings
+  editDistance?: EditDistanceSettings; // cost model of the fuzzy stage (transpositions, keyboard, look-alikes)
   phraseStopwords?: string[]; // stopwords allowed between phrase tokens
   phraseMaxSkips?: number; // how many stopwords/separators allowed between tokens
-  algorithm?: 'trie' | 'aho'; // matching algorithm for exact phase
+  algorithm?: MatcherAlgorithm; // matching algorithm for exact phase
+  combineLanguages?: boolean; // with 'aho': one automaton for every loaded language, scanned once
+  mode?: DetectionMode; // 'first' stops at the first hit; 'exhaustive' reports every match
+  resolution?: MatchResolution; // how overlapping/nested spans are reported
+  minSeverity?: ProfanitySeverity; // drop matches whose entry is less severe
+  disabledCategories?: ProfanityCategory[]; // drop matches tagged with any of these categories
 }
 
+export type DetectionMode = 'first' | 'exhaustive';
+
+/** Exact matcher: per-node trie, Aho–Corasick, or Aho–Corasick in typed arrays (large lists). */
+export type MatcherAlgorithm = 'trie' | 'aho' | 'compact';
+
 export interface LanguageConfig {
   enabled: string[];
   autoDetect: boolean;
@@ -51,11 +135,44 @@ export type ProfanityBusterUserConfig = Partial<Omit<ProfanityBusterConfig, 'lan
   languages?: LanguageConfig | string[];
 };
 
+export interface DetectionMatch {
+  word: string;
+  index: number;
+  length: number;
+  language: string;
+  severity: ProfanitySeverity;
+  categories: ProfanityCategory[];
+  explanation?: MatchExplanation; // only with detect(text, { explain: true })
+}
+
+/** Which part of the pipeline produced a match. */
+export type DetectionStage = MatcherAlgorithm | 'phrase' | 'fuzzy';
+
+export interface MatchExplanation {
+  stage: DetectionStage;
+  entry: string; // dictionary entry (normalized term or phrase) that matched
+  pack: string; // language pack the entry belongs to
+  distance?: number; // edit distance, fuzzy matches only
+  original: string; // the matched slice of the input
+  normalized: string; // the same slice after normalization, as the matcher saw it
+  normalization: (NormalizationChange | 'separators')[]; // steps that changed the slice
+  encoding?: EncodedReadingKind; // set when the match was found in a rot13 or base64 reading
+}
+
+export interface DetectOptions {
+  /** Attach a `MatchExplanation` to every match. Off by default; costs extra work per match. */
+  explain?: boolean;
+}
+
 export interface DetectionResult {
   hasProfanity: boolean;
-  matches: Array<{ word: string; index: number; length: number; language: string }>;
+  matches: DetectionMatch[];
+  suspicious?: SuspiciousToken[]; // mixed-script tokens, reported whether or not anything matched
 }
 
+// Stages of the exact matchers, which skip separators and honor repeat collapsing
+const EXACT_STAGES: ReadonlySet<DetectionStage> = new Set(['trie', 'aho', 'compact']);
+
 const DEFAULT_CONFIG: ProfanityBusterConfig = {
   masking: {
     enabled: true,
@@ -70,16 +187,30 @@ const DEFAULT_CONFIG: ProfanityBusterConfig = {
     wholeWordsOnly: false,
     customWords: [],
     confusableMapping: true,
+    maxConfusableBranches: 8,
+    substitutions: {},
+    useDefaultSubstitutions: true,
     ignoreSeparators: [' ', '.', '-', '_', '*'],
+    separatorCategories: [],
     stripDiacritics: true,
     useNFKC: false,
+    stripMarks: false,
+    stripMarksLanguages: [],
+    foldStyledLetters: true,
+    foldCrossScript: true,
+    collapseRepeats: false,
     enableInflections: true,
-    inflectionSuffixes: ['s', 'es', 'ed', 'ing', 'er', 'ers'],
     allowlist: [],
+    useDefaultAllowlist: true,
     tokenBoundedFuzzy: true,
     phraseStopwords: ['of', 'the', 'a', 'an', 'and', 'to'],
     phraseMaxSkips: 2,
     algorithm: 'trie',
+    combineLanguages: false,
+    mode: 'first',
+    resolution: 'all-overlapping',
+    minSeverity: 'mild',
+    disabledCategories: [],
   },
   languages: {
     enabled: ['en'],
@@ -94,20 +225,116 @@ Object.freeze(DEFAULT_CONFIG.masking);
 Object.freeze(DEFAULT_CONFIG.detection);
 Object.freeze(DEFAULT_CONFIG.languages);
 
+// Per-call state shared by the detection stages
+interface TextScan {
+  input: string;
+  normalized: NormalizedText;
+  branching?: ConfusableBranching;
+  allowed: AllowlistScan;
+  explain: boolean;
+}
+
+interface MatchCandidate {
+  word: string;
+  index: number; // offsets into the normalized text
+  length: number;
+  language: string;
+  term: string;
+  stage: DetectionStage;
+  distance?: number; // fuzzy stage only
+}
+
+// Everything the compiled wordlists and matchers depend on; fromCompiled() requires the same
+interface CompiledSettings {
+  normalization: NormalizationOptions;
+  separators: { characters: string[]; categories: string[] };
+  inflections: { suffixes?: string[]; morphology?: Record<string, MorphologyRules> } | false;
+  algorithm: MatcherAlgorithm;
+  combineLanguages: boolean;
+}
+
+// Header section of exportCompiled(); the phrase trie and `matchers` follow in order
+interface CompiledSnapshot {
+  settings: CompiledSettings;
+  enabled: string[];
+  wordlists: [string, string[]][];
+  metadata: [string, [string, EntryMetadata][]][];
+  phrases: string[][];
+  matchers: { kind: MatcherAlgorithm; codes: string[] }[];
+}
+
+function matcherKind(matcher: Trie | Automaton): MatcherAlgorithm {
+  if (matcher instanceof Trie) return 'trie';
+  return matcher instanceof CompactAutomaton ? 'compact' : 'aho';
+}
+
 export class ProfanityBuster {
+  // Set while fromCompiled() constructs the instance it restores into
+  private static restoring = false;
   private readonly config: ProfanityBusterConfig;
   private readonly languageWordlists: Map<string, Set<string>> = new Map();
+  // Only entries with explicit severity/categories are stored; others use the default
+  private readonly languageEntryMetadata: Map<string, Map<string, EntryMetadata>> = new Map();
   private readonly languageTries: Map<string, Trie> = new Map();
-  private readonly languageAutomata: Map<string, AhoCorasick> = new Map();
-  private readonly phraseTrie: PhraseTrie = new PhraseTrie();
+  private readonly languageAutomata: Map<string, Automaton> = new Map();
+  // With combineLanguages, every entry of languageAutomata is this one instance
+  private combinedAutomaton?: AhoCorasick;
+  // Built on first use by the fuzzy stage, dropped whenever the language is rebuilt
+  private readonly languageFuzzyIndexes: Map<string, FuzzyIndex> = new Map();
+  private phraseTrie: PhraseTrie = new PhraseTrie();
   private readonly phraseList: Set<string[]> = new Set();
+  private readonly allowlistCache: Map<string, Allowlist> = new Map();
+  // One automaton over every enabled language, built lazily for streaming
+  private readonly streamAutomatonCache: Map<string, Automaton> = new Map();
+  // Inflection rules per language, normalized like dictionary entries
+  private readonly morphologyCache: Map<string, MorphologyRules> = new Map();
+  private readonly editCostModel: EditCostModel;
+  // Resolved once so normalization can cache the compiled table by identity
+  private readonly substitutions?: Record<string, string>;
+  // Resolved once, like substitutions, so the compiled script pattern is cached
+  private readonly keepMarkScripts: readonly string[];
+  private readonly separators: SeparatorPolicy;
 
   constructor(userConfig?: ProfanityBusterUserConfig) {
     this.config = ProfanityBuster.mergeConfig(DEFAULT_CONFIG, userConfig);
+    this.editCostModel = new EditCostModel(this.config.detection.editDistance);
+    this.substitutions = this.resolveSubstitutions();
+    this.keepMarkScripts = this.resolveKeepMarkScripts();
+    this.separators = new SeparatorPolicy(
+      this.config.detection.ignoreSeparators ?? [],
+      this.config.detection.separatorCategories ?? [],
+      this.config.detection.separatorSkipping,
+    );
+    if (ProfanityBuster.restoring) return;
     this.loadLanguagePacks(this.config.languages.enabled);
     this.addCustomWords(this.config.detection.customWords);
   }
 
+  /**
+   * Restores an instance from `exportCompiled()` output without normalizing
+   * words or building matchers. `userConfig` must compile like the exporting
+   * instance's config (normalization, separators, inflections, algorithm);
+   * otherwise, or for a malformed snapshot or another format version, this
+   * throws a RangeError. Enabled languages come from the snapshot, and
+   * `customWords` are not added again: the snapshot's wordlists hold them.
+   */
+  static fromCompiled(
+    buffer: ArrayBuffer,
+    userConfig?: ProfanityBusterUserConfig,
+  ): ProfanityBuster {
+    const reader = new SnapshotReader(buffer);
+    const snapshot = reader.json<CompiledSnapshot>();
+    ProfanityBuster.restoring = true;
+    let buster: ProfanityBuster;
+    try {
+      buster = new ProfanityBuster(userConfig);
+    } finally {
+      ProfanityBuster.restoring = false;
+    }
+    buster.restoreCompiled(snapshot, reader);
+    return buster;
+  }
+
   static mergeConfig(
     base: ProfanityBusterConfig,
     override?: ProfanityBusterUserConfig,
@@ -148,71 +375,107 @@ export class ProfanityBuster {
     };
   }
 
-  detect(text: string): DetectionResult {
-    const textNormalized = normalizeForDetection(text, {
-      caseSensitive: this.config.detection.caseSensitive,
-      confusableMapping: this.config.detection.confusableMapping ?? true,
-      stripDiacritics: this.config.detection.stripDiacritics ?? true,
-      useNFKC: this.config.detection.useNFKC ?? false,
-      lengthPreserving: true,
-      stripInvisible: true,
-    });
+  detect(text: string, options?: DetectOptions): DetectionResult {
+    const explain = options?.explain ?? false;
+    const matches = this.collectMatches(text, explain);
+    // Opt-in rot13/base64 readings are scanned as inputs of their own
+    if (this.config.detection.mode === 'exhaustive' || matches.length === 0) {
+      for (const reading of findEncodedReadings(text, this.config.detection.decoding ?? {})) {
+        for (const match of this.collectMatches(reading.text, explain)) {
+          matches.push(this.fromEncodedReading(text, reading, match));
+        }
+      }
+    }
+
+    const resolved = resolveMatches(matches, this.config.detection.resolution ?? 'all-overlapping');
+    const result: DetectionResult = { hasProfanity: resolved.length > 0, matches: resolved };
+    const suspicious = findMixedScriptTokens(text);
+    if (suspicious.length > 0) result.suspicious = suspicious;
+    return result;
+  }
 
-    const matches: DetectionResult['matches'] = [];
+  // Matches of every stage over `text`, before overlap resolution
+  private collectMatches(text: string, explain: boolean): DetectionMatch[] {
+    const normalized = normalizeWithOffsets(text, this.normalizationOptions());
+    const textNormalized = normalized.text;
+
+    const matches: DetectionMatch[] = [];
     const candidateCodes = this.config.languages.autoDetect
-      ? this.selectAutoDetectLanguages(textNormalized)
+      ? this.selectAutoDetectLanguages(text) // scripts of the input, before cross-script folding
       : [...this.config.languages.enabled];
     const wordlists = this.collectWordlistsForCodes(candidateCodes);
+    const maxBranches = this.config.detection.maxConfusableBranches ?? 8;
+    const scan: TextScan = {
+      input: text,
+      normalized,
+      branching:
+        normalized.alternatives && maxBranches > 1
+          ? { alternatives: normalized.alternatives, maxBranches }
+          : undefined,
+      allowed: this.getAllowlist(candidateCodes).scan(textNormalized),
+      explain,
+    };
+    const exhaustive = this.config.detection.mode === 'exhaustive';
 
+    // An automaton shared by several languages is scanned once for all of them
+    const scanned = new Map<Automaton, Map<string, AhoMatch[]>>();
     for (const [languageCode] of wordlists) {
-      const separators = new Set(this.config.detection.ignoreSeparators ?? []);
+      const separators = this.separators;
       const whole = this.config.detection.wholeWordsOnly;
       const algo = this.config.detection.algorithm ?? 'trie';
-      if (algo === 'aho') {
+      if (algo === 'aho' || algo === 'compact') {
         const automaton = this.languageAutomata.get(languageCode);
         if (!automaton) continue;
-        const acMatches = automaton.findAllMatches(textNormalized, whole, separators);
-        for (const m of acMatches) {
-          const word = textNormalized.slice(m.index, m.index + m.length);
-          matches.push({ word, index: m.index, length: m.length, language: languageCode });
+        let byLanguage = scanned.get(automaton);
+        if (!byLanguage) {
+          byLanguage = new Map();
+          const found = automaton.findAllMatches(textNormalized, whole, separators, scan.branching);
+          for (const m of found) {
+            const list = byLanguage.get(m.language ?? '');
+            if (list) list.push(m);
+            else byLanguage.set(m.language ?? '', [m]);
+          }
+          scanned.set(automaton, byLanguage);
+        }
+        for (const m of byLanguage.get(languageCode) ?? []) {
+          this.pushMatch(matches, scan, {
+            word: this.exactWord(
+              textNormalized.slice(m.index, m.index + m.length),
+              m,
+              languageCode,
+            ),
+            index: m.index,
+            length: m.length,
+            language: languageCode,
+            term: m.term,
+            stage: algo,
+          });
         }
       } else {
         const trie = this.languageTries.get(languageCode);
         if (!trie) continue;
-        const trieMatches = trie.findAllMatches(textNormalized, whole, separators);
+        const trieMatches = trie.findAllMatches(textNormalized, whole, separators, scan.branching);
         for (const m of trieMatches) {
-          const word = textNormalized.slice(m.index, m.index + m.length);
-          matches.push({ word, index: m.index, length: m.length, language: languageCode });
-        }
-      }
-      if (matches.length > 0) break; // fast exit on first match
-    }
-
-    // Backup: inflection-aware regex scan to catch edge cases not covered by trie
-    if (this.config.detection.enableInflections ?? true) {
-      const covered = new Set(matches.map((m) => `${m.index}:${m.length}`));
-      for (const [languageCode, words] of wordlists) {
-        for (const word of words) {
-          const occ = this.findWordOccurrencesWithInflections(
-            textNormalized,
-            word,
-            this.config.detection.inflectionSuffixes ?? [],
-            this.config.detection.wholeWordsOnly,
-          );
-          for (const index of occ) {
-            const key = `${index}:${word.length}`;
-            if (!covered.has(key)) {
-              matches.push({ word, index, length: word.length, language: languageCode });
-              covered.add(key);
-            }
-          }
+          this.pushMatch(matches, scan, {
+            word: this.exactWord(
+              textNormalized.slice(m.index, m.index + m.length),
+              m,
+              languageCode,
+            ),
+            index: m.index,
+            length: m.length,
+            language: languageCode,
+            term: m.term,
+            stage: 'trie',
+          });
         }
       }
+      if (!exhaustive && matches.length > 0) break; // fast exit on first match
     }
 
     // Phrase-level matches (tokenized)
-    if (matches.length === 0 && this.phraseList.size > 0) {
-      const tokens = this.tokenizeWithOffsets(textNormalized);
+    if ((exhaustive || matches.length === 0) && this.phraseList.size > 0) {
+      const tokens = tokenize(textNormalized);
       const tokenValues = tokens.map((t) => t.value);
       const spans = this.phraseTrie.findAllMatchesForTokens(
         tokenValues,
@@ -225,51 +488,274 @@ export class ProfanityBuster {
         const index = start;
         const length = Math.max(0, endExclusive - start);
         const phrase = tokenValues.slice(span.startTokenIndex, span.endTokenIndex + 1).join(' ');
-        matches.push({ word: phrase, index, length, language: this.config.languages.fallback });
-        break;
+        this.pushMatch(matches, scan, {
+          word: phrase,
+          index,
+          length,
+          language: this.config.languages.fallback,
+          term: span.phrase,
+          stage: 'phrase',
+        });
+        if (!exhaustive) break;
       }
     }
 
-    // Fallback to fuzzy search if allowed and no exact matches
-    if (matches.length === 0 && this.config.detection.levenshteinDistance > 0) {
-      for (const [languageCode, words] of wordlists) {
-        for (const word of words) {
-          const index = this.findApproximateOccurrence(
-            textNormalized,
-            word,
-            this.scaledMaxDistance(word),
-            this.config.detection.wholeWordsOnly,
-          );
-          if (index !== -1) {
-            matches.push({ word, index, length: word.length, language: languageCode });
-            break;
-          }
+    // Fallback to fuzzy search if allowed and no exact matches (always runs when exhaustive)
+    if ((exhaustive || matches.length === 0) && this.config.detection.levenshteinDistance > 0) {
+      const options = {
+        wholeWordsOnly: this.config.detection.wholeWordsOnly,
+        tokenBounded: this.config.detection.tokenBoundedFuzzy ?? true,
+      };
+      for (const [languageCode] of wordlists) {
+        for (const m of this.getFuzzyIndex(languageCode).findAllMatches(textNormalized, options)) {
+          this.pushMatch(matches, scan, {
+            word: m.term,
+            index: m.index,
+            length: m.length,
+            language: languageCode,
+            term: m.term,
+            stage: 'fuzzy',
+            distance: m.distance,
+          });
         }
-        if (matches.length > 0) break;
+        if (!exhaustive && matches.length > 0) break;
       }
     }
+    return matches;
+  }
 
-    return { hasProfanity: matches.length > 0, matches };
+  // Reports a match found in a decoded reading against the encoded source
+  private fromEncodedReading(
+    input: string,
+    reading: EncodedReading,
+    match: DetectionMatch,
+  ): DetectionMatch {
+    const { index, length } = readingSourceSpan(reading, match.index, match.length);
+    const mapped: DetectionMatch = { ...match, index, length };
+    if (match.explanation) {
+      mapped.explanation = {
+        ...match.explanation,
+        original: input.slice(index, index + length),
+        encoding: reading.encoding,
+      };
+    }
+    return mapped;
   }
 
   sanitize(text: string): string {
     const detection = this.detect(text);
     if (!detection.hasProfanity || !this.config.masking.enabled) return text;
 
-    const output = text.split('');
-    for (const match of detection.matches) {
-      const original = output.slice(match.index, match.index + match.length).join('');
-      const masked = this.maskWord(original);
-      output.splice(match.index, match.length, ...masked.split(''));
+    // Merge overlapping spans so nested matches are masked once, as a whole
+    const spans = detection.matches
+      .map((m) => ({ start: m.index, end: m.index + m.length }))
+      .sort((a, b) => a.start - b.start);
+    let output = '';
+    let cursor = 0;
+    for (let i = 0; i < spans.length; i++) {
+      const start = Math.max(spans[i].start, cursor);
+      let end = spans[i].end;
+      while (i + 1 < spans.length && spans[i + 1].start < end) {
+        end = Math.max(end, spans[i + 1].end);
+        i += 1;
+      }
+      if (end <= start) continue;
+      output += text.slice(cursor, start) + this.maskWord(text.slice(start, end));
+      cursor = end;
+    }
+    return output + text.slice(cursor);
+  }
+
+  /**
+   * Creates a stateful sanitizer for text that arrives in chunks, such as chat
+   * or LLM token streams: `write(chunk)` returns the sanitized text that is safe
+   * to emit so far and `end()` flushes the rest. Profanity split across chunks
+   * ("fu" + "ck") is still masked.
+   *
+   * Streams run the exact-match stage over the enabled languages with the
+   * separator, inflection, allowlist and severity/category settings applied.
+   * Phrase and fuzzy matching need the whole text and are not applied, and
+   * neither is `collapseRepeats` (a run may continue in the next chunk).
+   * Ambiguous look-alikes use their primary reading only ("1" is "i").
+   */
+  createStreamSanitizer(): StreamSanitizer {
+    const codes = [...this.config.languages.enabled];
+    const allowlist = this.getAllowlist(codes);
+    return new StreamSanitizer({
+      automaton: this.getStreamAutomaton(codes),
+      normalization: { ...this.normalizationOptions(), collapseRepeats: false },
+      wholeWordsOnly: this.config.detection.wholeWordsOnly,
+      separators: this.separators,
+      allowlist: allowlist.isEmpty ? undefined : allowlist.createStreamScanner(),
+      accept: (term) =>
+        codes.some(
+          (code) =>
+            this.languageWordlists.get(code)?.has(term) === true &&
+            this.isEntryEnabled(this.lookupEntryMetadata(code, term)),
+        ),
+      mask: (segment) => (this.config.masking.enabled ? this.maskWord(segment) : segment),
+    });
+  }
+
+  private getStreamAutomaton(codes: string[]): Automaton {
+    const key = codes.join(',');
+    let automaton = this.streamAutomatonCache.get(key);
+    if (!automaton) {
+      const builder =
+        this.config.detection.algorithm === 'compact' ? new CompactAutomaton() : new AhoCorasick();
+      for (const [code, words] of this.collectWordlistsForCodes(codes)) {
+        for (const w of words) {
+          this.insertPatterns(builder, code, w, this.expandWordVariants(w, code));
+        }
+      }
+      builder.build();
+      automaton = builder;
+      this.streamAutomatonCache.set(key, automaton);
+    }
+    return automaton;
+  }
+
+  private pushMatch(matches: DetectionMatch[], scan: TextScan, candidate: MatchCandidate): void {
+    const { word, language, term } = candidate;
+    if (scan.allowed.covers(candidate.index, candidate.length)) return;
+    if (EXACT_STAGES.has(candidate.stage) && !this.repeatsFit(scan, candidate)) {
+      return;
+    }
+    const metadata = this.lookupEntryMetadata(language, term);
+    if (!this.isEntryEnabled(metadata)) return;
+    // Matchers work on normalized text; report offsets into the original input
+    const { index, length } = toSourceSpan(scan.normalized, candidate.index, candidate.length);
+    const match: DetectionMatch = {
+      word,
+      index,
+      length,
+      language,
+      severity: metadata.severity,
+      categories: [...metadata.categories],
+    };
+    if (scan.explain) match.explanation = this.explainMatch(scan, candidate, index, length);
+    matches.push(match);
+  }
+
+  private explainMatch(
+    scan: TextScan,
+    candidate: MatchCandidate,
+    index: number,
+    length: number,
+  ): MatchExplanation {
+    const original = scan.input.slice(index, index + length);
+    const normalized = scan.normalized.text.slice(
+      candidate.index,
+      candidate.index + candidate.length,
+    );
+    const changes: MatchExplanation['normalization'] = describeNormalization(
+      original,
+      this.normalizationOptions(),
+    );
+    // Exact matchers skip separators inside a match ("f.u.c.k")
+    if (EXACT_STAGES.has(candidate.stage)) {
+      if ([...normalized].some((ch) => this.separators.has(ch))) changes.push('separators');
+    }
+    const explanation: MatchExplanation = {
+      stage: candidate.stage,
+      entry: candidate.term,
+      pack: candidate.language,
+      original,
+      normalized,
+      normalization: changes,
+    };
+    if (candidate.distance !== undefined) explanation.distance = candidate.distance;
+    return explanation;
+  }
+
+  // The normalized text of an exact hit, unless it spells no variant of the entry: then
+  // it was read through collapsed repeats ("asssss" -> "as") or another reading of a
+  // look-alike than the primary one ("1oser" -> "ioser"), and the entry is what matched
+  private exactWord(slice: string, match: { term: string }, language: string): string {
+    const { pattern } = this.separators.strip(slice);
+    const variants = this.expandWordVariants(match.term, language);
+    return variants.some((v) => this.separators.strip(v).pattern === pattern) ? slice : match.term;
+  }
+
+  // With collapseRepeats, entries with double letters are also indexed collapsed
+  // ("ass" -> "as") so elongated text ("asss" -> "as") matches. Such a hit is kept
+  // only if each letter run in the text is at least as long as in some variant
+  // (a run may be read through an ambiguous look-alike: "ba11s").
+  private repeatsFit(scan: TextScan, candidate: MatchCandidate): boolean {
+    const { text, repeats, alternatives } = scan.normalized;
+    if (!repeats) return true;
+    const variants = this.expandWordVariants(candidate.term, candidate.language).map((v) =>
+      codePointRuns([...this.separators.strip(v).pattern]),
+    );
+    if (variants.every((runs) => runs.every((r) => r.count === 1))) return true;
+
+    const chars: string[] = [];
+    const counts: number[] = [];
+    const readings = new Map<string, Set<string>>(); // primary letter -> alternatives seen
+    for (let i = candidate.index; i < candidate.index + candidate.length; ) {
+      const ch = codePointAt(text, i);
+      if (!this.separators.has(ch)) {
+        chars.push(ch);
+        counts.push(repeats[i]);
+        for (const alt of alternatives?.get(i) ?? []) {
+          readings.set(ch, (readings.get(ch) ?? new Set()).add(alt));
+        }
+      }
+      i += ch.length;
     }
-    return output.join('');
+    const found = codePointRuns(chars, counts);
+    return variants.some(
+      (runs) =>
+        runs.length === found.length &&
+        runs.every(
+          (r, k) =>
+            (r.ch === found[k].ch || readings.get(found[k].ch)?.has(r.ch) === true) &&
+            found[k].count >= r.count,
+        ),
+    );
   }
 
+  private lookupEntryMetadata(language: string, term: string): Readonly<EntryMetadata> {
+    return this.languageEntryMetadata.get(language)?.get(term) ?? DEFAULT_ENTRY_METADATA;
+  }
+
+  private isEntryEnabled(metadata: Readonly<EntryMetadata>): boolean {
+    const minSeverity = this.config.detection.minSeverity ?? 'mild';
+    if (severityRank(metadata.severity) < severityRank(minSeverity)) return false;
+    const disabled = this.config.detection.disabledCategories ?? [];
+    return !metadata.categories.some((c) => disabled.includes(c));
+  }
+
+  private getAllowlist(codes: string[]): Allowlist {
+    const key = codes.join(',');
+    let allowlist = this.allowlistCache.get(key);
+    if (!allowlist) {
+      // Inflect plain words too so "glass" also protects "glasses"; user entries
+      // take the forms of every active language, pack entries those of their own
+      const inflectAll = (entries: AllowlistEntry[], languages: string[]): AllowlistEntry[] =>
+        entries.flatMap((e) =>
+          typeof e === 'string' && !e.includes('*')
+            ? languages.flatMap((code) => this.expandWordVariants(e, code))
+            : [e],
+        );
+      const expanded = inflectAll(this.config.detection.allowlist ?? [], codes);
+      if (this.config.detection.useDefaultAllowlist ?? true) {
+        for (const code of codes) {
+          expanded.push(...inflectAll(languageAllowlists[code] ?? [], [code]));
+        }
+      }
+      allowlist = new Allowlist(expanded, (w) => this.normalizeWord(w));
+      this.allowlistCache.set(key, allowlist);
+    }
+    return allowlist;
+  }
+
+  // Masks per grapheme cluster, so an emoji or accented letter becomes one pattern char
   private maskWord(word: string): string {
     const { pattern, preserveLength, preserveFirst, preserveLast } = this.config.masking;
-    if (!preserveLength) return pattern.repeat(Math.max(1, word.length));
+    const chars = splitGraphemes(word);
+    if (!preserveLength) return pattern.repeat(Math.max(1, chars.length));
 
-    const chars = word.split('');
     return chars
       .map((char, index) => {
         if ((preserveFirst && index === 0) || (preserveLast && index === chars.length - 1)) {
@@ -334,7 +820,7 @@ export class ProfanityBuster {
       ) {
         continue;
       }
-      let words: string[] | undefined;
+      let words: DictionaryEntry[] | undefined;
       if (code === 'en') {
         words = EN_WORDS;
       } else {
@@ -343,8 +829,7 @@ export class ProfanityBuster {
       if (!Array.isArray(words) || words.length === 0) {
         continue;
       }
-      const normalized = new Set(words.map((w) => this.normalizeWord(w)));
-      this.languageWordlists.set(code, normalized);
+      this.languageWordlists.set(code, this.indexEntries(code, words));
       this.rebuildMatcherForLanguage(code);
     }
   }
@@ -352,7 +837,7 @@ export class ProfanityBuster {
   private loadLanguagePacks(codes: string[]): void {
     for (const code of codes) {
       if (code === 'en') {
-        this.languageWordlists.set('en', new Set(EN_WORDS.map((w) => this.normalizeWord(w))));
+        this.languageWordlists.set('en', this.indexEntries('en', EN_WORDS));
       } else {
         this.languageWordlists.set(code, new Set());
       }
@@ -374,7 +859,7 @@ export class ProfanityBuster {
         }
         continue;
       }
-      let words: string[] | undefined;
+      let words: DictionaryEntry[] | undefined;
       if (code === 'en') {
         words = EN_WORDS;
       } else {
@@ -386,8 +871,7 @@ export class ProfanityBuster {
           continue;
         }
       }
-      const normalized = new Set((words ?? []).map((w) => this.normalizeWord(w)));
-      this.languageWordlists.set(code, normalized);
+      this.languageWordlists.set(code, this.indexEntries(code, words ?? []));
       this.rebuildMatcherForLanguage(code);
       if (!this.config.languages.enabled.includes(code)) {
         this.config.languages.enabled = [...this.config.languages.enabled, code];
@@ -395,58 +879,139 @@ export class ProfanityBuster {
     }
   }
 
+  /**
+   * Normalizes entries for a language and records their severity/categories.
+   * Pack annotations apply to bare strings; structured entries override them.
+   */
+  private indexEntries(code: string, entries: DictionaryEntry[]): Set<string> {
+    const packMetadata = languageEntryMetadata[code] ?? {};
+    const metadata = new Map<string, EntryMetadata>();
+    const normalized = new Set<string>();
+    for (const raw of entries) {
+      const entry = toWordEntry(raw);
+      const term = this.normalizeWord(entry.term);
+      normalized.add(term);
+      const annotated = packMetadata[entry.term];
+      if (annotated || entry.severity || entry.categories || entry.boundary) {
+        metadata.set(term, resolveEntryMetadata(entry, annotated));
+      }
+    }
+    this.languageEntryMetadata.set(code, metadata);
+    return normalized;
+  }
+
+  private setEntryMetadata(code: string, term: string, entry: WordEntry): void {
+    if (!entry.severity && !entry.categories && !entry.boundary) return;
+    const metadata = this.languageEntryMetadata.get(code) ?? new Map<string, EntryMetadata>();
+    metadata.set(term, resolveEntryMetadata(entry, metadata.get(term)));
+    this.languageEntryMetadata.set(code, metadata);
+  }
+
+  // The matchers skip separators in the text, so patterns drop them too ("blow job" -> "blowjob")
+  private insertPatterns(
+    matcher: Trie | AhoCorasick | CompactAutomaton,
+    code: string,
+    term: string,
+    variants: string[],
+  ): void {
+    const { boundary } = this.lookupEntryMetadata(code, term);
+    for (const variant of variants) {
+      const { pattern, gaps } = this.separators.strip(variant);
+      matcher.insert(pattern, term, {
+        boundary,
+        gaps: gaps.length > 0 ? gaps : undefined,
+        language: code,
+      });
+    }
+  }
+
+  // Entries sharing a pattern are reported in insertion order and the first one wins
+  // the span, so entries spelled without separators go first ("fuck" over "f u c k")
+  private insertWordlist(
+    matcher: Trie | AhoCorasick | CompactAutomaton,
+    code: string,
+    words: Iterable<string>,
+  ): void {
+    const all = Array.from(words);
+    const spaced = (w: string): boolean => this.separators.strip(w).gaps.length > 0;
+    for (const w of [...all.filter((w) => !spaced(w)), ...all.filter(spaced)]) {
+      this.insertPatterns(matcher, code, w, this.matcherVariants(w, code));
+    }
+  }
+
   private rebuildMatcherForLanguage(code: string): void {
     const words = this.languageWordlists.get(code);
+    this.streamAutomatonCache.clear();
+    this.languageFuzzyIndexes.delete(code);
     const algorithm = this.config.detection.algorithm ?? 'trie';
-    if (algorithm === 'aho') {
+    if (algorithm === 'compact') {
+      this.languageTries.delete(code);
+      this.combinedAutomaton?.removeOutputs(code);
+      // Immutable once built, so every change builds it anew
+      const compact = new CompactAutomaton();
+      if (words) this.insertWordlist(compact, code, words);
+      compact.build();
+      this.languageAutomata.set(code, compact);
+    } else if (algorithm === 'aho') {
       // Clear trie for this language to save memory
       this.languageTries.delete(code);
-      const ac = new AhoCorasick();
-      if (words) {
-        for (const w of words) {
-          const variants = this.expandWordVariants(w);
-          ac.insertAll(variants);
-        }
-      }
-      ac.build();
+      // Only this language's outputs change; the others keep theirs, and the
+      // combined automaton rebuilds itself once, on its next scan
+      const combined = this.config.detection.combineLanguages ?? false;
+      if (combined && !this.combinedAutomaton) this.combinedAutomaton = new AhoCorasick();
+      this.combinedAutomaton?.removeOutputs(code);
+      const ac = combined ? this.combinedAutomaton! : new AhoCorasick();
+      if (words) this.insertWordlist(ac, code, words);
+      if (!combined) ac.build();
       this.languageAutomata.set(code, ac);
     } else {
       // Clear automaton for this language to save memory
       this.languageAutomata.delete(code);
+      this.combinedAutomaton?.removeOutputs(code);
       const trie = new Trie();
-      if (words) {
-        for (const w of words) {
-          const variants = this.expandWordVariants(w);
-          trie.insertAll(variants);
-        }
-      }
+      if (words) this.insertWordlist(trie, code, words);
       this.languageTries.set(code, trie);
     }
   }
 
+  private getFuzzyIndex(code: string): FuzzyIndex {
+    let index = this.languageFuzzyIndexes.get(code);
+    if (!index) {
+      index = new FuzzyIndex(this.editCostModel);
+      for (const w of this.languageWordlists.get(code) ?? []) {
+        index.insert(w, this.scaledMaxDistance(w));
+      }
+      this.languageFuzzyIndexes.set(code, index);
+    }
+    return index;
+  }
+
   private rebuildPhraseTrie(): void {
     const phrases = Array.from(this.phraseList.values());
     this.phraseTrie.insertAll(phrases);
   }
 
   // Phase 3: Management APIs
-  addWord(word: string, language?: string): void {
+  addWord(word: DictionaryEntry, language?: string): void {
     const lang = language ?? this.config.languages.fallback;
+    const entry = toWordEntry(word);
+    const term = this.normalizeWord(entry.term);
     const set = this.languageWordlists.get(lang) ?? new Set<string>();
-    set.add(this.normalizeWord(word));
+    set.add(term);
     this.languageWordlists.set(lang, set);
+    this.setEntryMetadata(lang, term, entry);
     this.rebuildMatcherForLanguage(lang);
   }
 
   addPhrase(phrase: string): void {
-    const tokens = this.tokenizeWithOffsets(this.normalizeWord(phrase)).map((t) => t.value);
+    const tokens = tokenize(this.normalizeWord(phrase)).map((t) => t.value);
     if (tokens.length === 0) return;
     this.phraseList.add(tokens);
     this.rebuildPhraseTrie();
   }
 
   removePhrase(phrase: string): void {
-    const tokens = this.tokenizeWithOffsets(this.normalizeWord(phrase)).map((t) => t.value);
+    const tokens = tokenize(this.normalizeWord(phrase)).map((t) => t.value);
     if (tokens.length === 0) return;
     for (const existing of Array.from(this.phraseList.values())) {
       if (existing.length === tokens.length && existing.every((t, i) => t === tokens[i])) {
@@ -461,7 +1026,9 @@ export class ProfanityBuster {
     const lang = language ?? this.config.languages.fallback;
     const set = this.languageWordlists.get(lang);
     if (!set) return;
-    set.delete(this.normalizeWord(word));
+    const term = this.normalizeWord(word);
+    set.delete(term);
+    this.languageEntryMetadata.get(lang)?.delete(term);
     this.languageWordlists.set(lang, set);
     this.rebuildMatcherForLanguage(lang);
   }
@@ -472,7 +1039,7 @@ export class ProfanityBuster {
     this.loadLanguagePacks(this.config.languages.enabled);
   }
 
-  setAlgorithm(algorithm: 'trie' | 'aho'): void {
+  setAlgorithm(algorithm: MatcherAlgorithm): void {
     this.config.detection.algorithm = algorithm;
     // Rebuild all active languages with the new matcher
     for (const code of this.config.languages.enabled) {
@@ -480,173 +1047,186 @@ export class ProfanityBuster {
     }
   }
 
-  private addCustomWords(words: string[]): void {
+  /**
+   * Binary snapshot (see `core/snapshot.ts`) of the compiled state: normalized
+   * wordlists and entry metadata, phrases and the phrase trie, and the matcher
+   * of every language, for `ProfanityBuster.fromCompiled`. Indexes built on
+   * first use (fuzzy, allowlists, stream automata) are left out.
+   */
+  exportCompiled(): ArrayBuffer {
+    // A combined automaton serves several languages and is written once
+    const matchers = new Map<Trie | Automaton, string[]>();
+    for (const [code, matcher] of [...this.languageTries, ...this.languageAutomata]) {
+      matchers.set(matcher, [...(matchers.get(matcher) ?? []), code]);
+    }
+    const snapshot: CompiledSnapshot = {
+      settings: this.compiledSettings(),
+      enabled: this.config.languages.enabled,
+      wordlists: Array.from(this.languageWordlists, ([code, words]) => [code, [...words]]),
+      metadata: Array.from(this.languageEntryMetadata, ([code, entries]) => [code, [...entries]]),
+      phrases: Array.from(this.phraseList),
+      matchers: Array.from(matchers, ([matcher, codes]) => ({ kind: matcherKind(matcher), codes })),
+    };
+    const writer = new SnapshotWriter();
+    writer.json(snapshot);
+    this.phraseTrie.writeTo(writer);
+    for (const matcher of matchers.keys()) matcher.writeTo(writer);
+    return writer.finish();
+  }
+
+  private restoreCompiled(snapshot: CompiledSnapshot, reader: SnapshotReader): void {
+    const settings = this.compiledSettings();
+    const differing = (Object.keys(settings) as (keyof CompiledSettings)[]).filter(
+      (key) => JSON.stringify(settings[key]) !== JSON.stringify(snapshot.settings[key]),
+    );
+    if (differing.length > 0) {
+      throw new RangeError(
+        `ProfanityBuster.fromCompiled: snapshot was compiled with different ${differing.join(', ')} settings`,
+      );
+    }
+    this.config.languages.enabled = [...snapshot.enabled];
+    for (const [code, words] of snapshot.wordlists) {
+      this.languageWordlists.set(code, new Set(words));
+    }
+    for (const [code, entries] of snapshot.metadata) {
+      this.languageEntryMetadata.set(code, new Map(entries));
+    }
+    for (const tokens of snapshot.phrases) this.phraseList.add(tokens);
+    this.phraseTrie = PhraseTrie.readFrom(reader);
+    for (const { kind, codes } of snapshot.matchers) {
+      if (kind === 'trie') {
+        const trie = Trie.readFrom(reader);
+        for (const code of codes) this.languageTries.set(code, trie);
+        continue;
+      }
+      const automaton =
+        kind === 'compact' ? CompactAutomaton.readFrom(reader) : AhoCorasick.readFrom(reader);
+      if (automaton instanceof AhoCorasick && settings.combineLanguages) {
+        this.combinedAutomaton = automaton;
+      }
+      for (const code of codes) this.languageAutomata.set(code, automaton);
+    }
+  }
+
+  // Everything the compiled wordlists and matchers depend on
+  private compiledSettings(): CompiledSettings {
+    const { detection } = this.config;
+    return {
+      normalization: this.normalizationOptions(),
+      separators: {
+        characters: detection.ignoreSeparators ?? [],
+        categories: detection.separatorCategories ?? [],
+      },
+      inflections: detection.enableInflections
+        ? { suffixes: detection.inflectionSuffixes, morphology: detection.morphology }
+        : false,
+      algorithm: detection.algorithm ?? 'trie',
+      combineLanguages: detection.combineLanguages ?? false,
+    };
+  }
+
+  private addCustomWords(words: DictionaryEntry[]): void {
     if (!words || words.length === 0) return;
     const targetCode = this.config.languages.fallback;
     const target = this.languageWordlists.get(targetCode) ?? new Set<string>();
     for (const word of words) {
-      for (const variant of this.expandWordVariants(word)) {
-        target.add(variant);
-      }
+      // Variants are expanded when the matcher is rebuilt
+      const entry = toWordEntry(word);
+      const term = this.normalizeWord(entry.term);
+      target.add(term);
+      this.setEntryMetadata(targetCode, term, entry);
     }
     this.languageWordlists.set(targetCode, target);
     this.rebuildMatcherForLanguage(targetCode);
   }
 
   private normalizeWord(word: string): string {
-    return normalizeWordWithOptions(word, {
+    return normalizeWordWithOptions(word, this.normalizationOptions());
+  }
+
+  // Detection maps offsets back through NormalizedText, so normalization is free
+  // to expand (ligatures), compose (NFKC) or drop (invisibles) characters.
+  private normalizationOptions(): NormalizationOptions {
+    const { decoding } = this.config.detection;
+    return {
       caseSensitive: this.config.detection.caseSensitive,
       confusableMapping: this.config.detection.confusableMapping ?? true,
       stripDiacritics: this.config.detection.stripDiacritics ?? true,
       useNFKC: this.config.detection.useNFKC ?? false,
-      lengthPreserving: true,
+      stripMarks: this.config.detection.stripMarks ?? false,
+      keepMarkScripts: this.keepMarkScripts,
+      foldStyledLetters: this.config.detection.foldStyledLetters ?? true,
+      foldCrossScript: this.config.detection.foldCrossScript ?? true,
+      collapseRepeats: this.config.detection.collapseRepeats ?? false,
+      substitutions: this.substitutions,
+      decoding: decoding?.htmlEntities || decoding?.percentEncoding ? decoding : undefined,
+      lengthPreserving: false,
       stripInvisible: true,
-    });
+    };
   }
 
-  private expandWordVariants(word: string): string[] {
+  private expandWordVariants(word: string, language: string): string[] {
     const normalized = this.normalizeWord(word);
-    const variants: Set<string> = new Set([normalized]);
-    if (this.config.detection.enableInflections) {
-      const suffixes = this.config.detection.inflectionSuffixes ?? [];
-      for (const suffix of suffixes) {
-        variants.add(`${normalized}${suffix}`);
-      }
-    }
-    return Array.from(variants);
-  }
-
-  private tokenizeWithOffsets(
-    text: string,
-  ): Array<{ value: string; start: number; endExclusive: number }> {
-    const tokens: Array<{ value: string; start: number; endExclusive: number }> = [];
-    const re = /[\p{L}\p{N}_]+/gu;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(text)) !== null) {
-      const value = m[0] ?? '';
-      const start = m.index;
-      const endExclusive = start + value.length;
-      if (value.length > 0) tokens.push({ value, start, endExclusive });
-    }
-    return tokens;
-  }
-
-  private findWordOccurrences(text: string, word: string, wholeWordsOnly: boolean): number[] {
-    const indices: number[] = [];
-    if (!word) return indices;
-    const WORD_CHAR = /[\p{L}\p{N}_]/u;
-    const escapedWord = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const regex = new RegExp(escapedWord, 'g');
-    let match: RegExpExecArray | null;
-    while ((match = regex.exec(text)) !== null) {
-      const start = match.index;
-      const end = start + word.length;
-      if (wholeWordsOnly) {
-        const leftOk = start === 0 || !WORD_CHAR.test(text[start - 1]);
-        const rightOk = end >= text.length || !WORD_CHAR.test(text[end]);
-        if (!leftOk || !rightOk) continue;
-      }
-      indices.push(start);
-    }
-    return indices;
-  }
-
-  private findWordOccurrencesWithInflections(
-    text: string,
-    base: string,
-    suffixes: string[],
-    wholeWordsOnly: boolean,
-  ): number[] {
-    const indices: number[] = [];
-    const WORD_CHAR = /[\p{L}\p{N}_]/u;
-    const escapedBase = base.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const escapedSuffixes = suffixes.map((s) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-    const group = escapedSuffixes.length > 0 ? `(?:${escapedSuffixes.join('|')})?` : '';
-    const regex = new RegExp(`${escapedBase}${group}`, 'g');
-    let m: RegExpExecArray | null;
-    while ((m = regex.exec(text)) !== null) {
-      const start = m.index;
-      const end = start + (m[0]?.length ?? base.length);
-      if (wholeWordsOnly) {
-        const leftOk = start === 0 || !WORD_CHAR.test(text[start - 1]);
-        const rightOk = end >= text.length || !WORD_CHAR.test(text[end]);
-        if (!leftOk || !rightOk) continue;
-      }
-      indices.push(start);
-    }
-    return indices;
-  }
-
-  private findApproximateOccurrence(
-    text: string,
-    word: string,
-    maxDistance: number,
-    wholeWordsOnly: boolean,
-  ): number {
-    const length = text.length;
-    const tokenBounded = this.config.detection.tokenBoundedFuzzy ?? true;
-    const WORD_CHAR = /[\p{L}\p{N}_]/u;
-    const windowSize = word.length + maxDistance;
-
-    for (let i = 0; i <= length - word.length; i++) {
-      if (tokenBounded && i > 0 && WORD_CHAR.test(text[i - 1])) continue;
-      const window = text.slice(i, Math.min(length, i + windowSize));
-      const { index, distance } = this.findMinDistanceInWindow(window, word);
-      if (distance <= maxDistance) {
-        const start = i + index;
-        if (wholeWordsOnly) {
-          const leftOk = start === 0 || !WORD_CHAR.test(text[start - 1]);
-          const rightOk =
-            start + word.length >= length || !WORD_CHAR.test(text[start + word.length]);
-          if (!leftOk || !rightOk) continue;
-        }
-        return start;
-      }
-    }
-    return -1;
-  }
-
-  private findMinDistanceInWindow(
-    window: string,
-    target: string,
-  ): { index: number; distance: number } {
-    let bestIndex = -1;
-    let bestDistance = Number.POSITIVE_INFINITY;
-    for (let i = 0; i <= window.length - target.length; i++) {
-      const candidate = window.slice(i, i + target.length);
-      const d = this.levenshtein(candidate, target);
-      if (d < bestDistance) {
-        bestDistance = d;
-        bestIndex = i;
-        if (bestDistance === 0) break;
-      }
+    if (!this.config.detection.enableInflections) return [normalized];
+    return inflect(normalized, this.morphologyFor(language));
+  }
+
+  // The language's rules (`morphology` option, else the pack's), with
+  // `inflectionSuffixes` in place of their suffixes if set
+  private morphologyFor(language: string): MorphologyRules {
+    let rules = this.morphologyCache.get(language);
+    if (!rules) {
+      const { morphology, inflectionSuffixes } = this.config.detection;
+      const own = morphology?.[language] ?? languageMorphology[language] ?? {};
+      rules = mapMorphologyRules(
+        { ...own, suffixes: inflectionSuffixes ?? own.suffixes },
+        (affix) => this.normalizeWord(affix),
+      );
+      this.morphologyCache.set(language, rules);
     }
-    return { index: bestIndex === -1 ? 0 : bestIndex, distance: bestDistance };
+    return rules;
+  }
+
+  private resolveSubstitutions(): Record<string, string> | undefined {
+    const { confusableMapping, substitutions, useDefaultSubstitutions } = this.config.detection;
+    if (!(confusableMapping ?? true)) return undefined;
+    const table = {
+      ...((useDefaultSubstitutions ?? true) ? DEFAULT_SUBSTITUTIONS : {}),
+      ...(substitutions ?? {}),
+    };
+    return Object.keys(table).length > 0 ? table : undefined;
+  }
+
+  private resolveKeepMarkScripts(): readonly string[] {
+    const languages = this.config.detection.stripMarksLanguages ?? [];
+    if (languages.length === 0) return MARK_SCRIPTS;
+    const stripped = new Set(languages.flatMap((code) => languageMarkScripts[code] ?? []));
+    return MARK_SCRIPTS.filter((script) => !stripped.has(script));
+  }
+
+  // Variants indexed by the exact matchers of detect(); see repeatsFit
+  private matcherVariants(word: string, language: string): string[] {
+    const variants = this.expandWordVariants(word, language);
+    if (!(this.config.detection.collapseRepeats ?? false)) return variants;
+    const collapsed = variants.map((v) =>
+      codePointRuns([...v])
+        .map((r) => r.ch)
+        .join(''),
+    );
+    return Array.from(new Set([...variants, ...collapsed]));
   }
 
+  // The configured (possibly fractional) budget, scaled down for words under five code
+  // points. Those only keep a budget that pays for one ordinary edit: cheap edits alone
+  // would turn "shut" into "shit" at the default budget of 1. Under four, an edit leaves
+  // too little of the word ("as" -> "ass"), so they get none.
   private scaledMaxDistance(word: string): number {
-    const base = this.config.detection.levenshteinDistance;
-    const scaled = Math.max(0, Math.min(base, Math.floor(word.length / 5)));
-    return scaled;
-  }
-
-  private levenshtein(a: string, b: string): number {
-    const m = a.length;
-    const n = b.length;
-    const dp: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
-    for (let i = 0; i <= m; i++) dp[i][0] = i;
-    for (let j = 0; j <= n; j++) dp[0][j] = j;
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-        dp[i][j] = Math.min(
-          dp[i - 1][j] + 1, // deletion
-          dp[i][j - 1] + 1, // insertion
-          dp[i - 1][j - 1] + cost, // substitution
-        );
-      }
-    }
-    return dp[m][n];
+    const base = Math.max(0, this.config.detection.levenshteinDistance);
+    const length = Array.from(word).length;
+    if (length >= 5) return base;
+    if (length < 4) return 0;
+    const scaled = (base * length) / 5;
+    return scaled + COST_EPSILON >= this.editCostModel.baseCost ? scaled : 0;
   }
 }
 
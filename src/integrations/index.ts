@@ -3,3 +3,5 @@ export {
   useProfanityBuster as useProfanityBusterHook,
 } from './react/useProfanityBuster';
 export { default as createProfanityMiddleware } from './express/middleware';
+export { default as sanitizeAsyncIterable } from './stream/asyncIterable';
+export { default as createSanitizerTransformStream } from './stream/transformStream';
@@ -0,0 +1,20 @@
+import type ProfanityBuster from '../../index';
+
+/**
+ * Sanitizes a stream of text chunks (e.g. LLM tokens), yielding sanitized text
+ * as soon as it can no longer be part of a match.
+ */
+export async function* sanitizeAsyncIterable(
+  buster: ProfanityBuster,
+  source: AsyncIterable<string> | Iterable<string>,
+): AsyncGenerator<string, void, undefined> {
+  const sanitizer = buster.createStreamSanitizer();
+  for await (const chunk of source) {
+    const output = sanitizer.write(chunk);
+    if (output) yield output;
+  }
+  const rest = sanitizer.end();
+  if (rest) yield rest;
+}
+
+export default sanitizeAsyncIterable;
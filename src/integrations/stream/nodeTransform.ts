@@ -0,0 +1,40 @@
+import { Transform } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+
+import type ProfanityBuster from '../../index';
+
+/**
+ * Node.js `Transform` that sanitizes text passing through it. Buffer chunks are
+ * decoded as UTF-8 (multi-byte characters split across chunks are handled);
+ * output is pushed as strings.
+ *
+ * Exported from `profanitybuster/node` so the main entry stays free of Node-only imports.
+ */
+export function createSanitizerTransform(buster: ProfanityBuster): Transform {
+  const sanitizer = buster.createStreamSanitizer();
+  const decoder = new StringDecoder('utf8');
+  return new Transform({
+    decodeStrings: false,
+    readableObjectMode: false,
+    encoding: 'utf8',
+    transform(chunk: string | Buffer, _encoding, callback) {
+      try {
+        const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+        const output = sanitizer.write(text);
+        callback(null, output || undefined);
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        const rest = sanitizer.write(decoder.end()) + sanitizer.end();
+        callback(null, rest || undefined);
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+  });
+}
+
+export default createSanitizerTransform;
@@ -0,0 +1,23 @@
+import type ProfanityBuster from '../../index';
+
+/**
+ * WHATWG `TransformStream` of text chunks, for `fetch` bodies, Web/Edge
+ * runtimes and browsers. Byte streams should go through a `TextDecoderStream` first.
+ */
+export function createSanitizerTransformStream(
+  buster: ProfanityBuster,
+): TransformStream<string, string> {
+  const sanitizer = buster.createStreamSanitizer();
+  return new TransformStream<string, string>({
+    transform(chunk, controller) {
+      const output = sanitizer.write(chunk);
+      if (output) controller.enqueue(output);
+    },
+    flush(controller) {
+      const rest = sanitizer.end();
+      if (rest) controller.enqueue(rest);
+    },
+  });
+}
+
+export default createSanitizerTransformStream;
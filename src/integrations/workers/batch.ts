@@ -0,0 +1,41 @@
+import ProfanityBuster, { type DetectionResult, type ProfanityBusterUserConfig } from '../../index';
+
+export type BatchKind = 'detect' | 'sanitize';
+
+export interface BatchRequest {
+  id: number;
+  kind: BatchKind;
+  texts: string[];
+}
+
+export type BatchResponse =
+  | { id: number; results: DetectionResult[] | string[] }
+  | { id: number; error: string };
+
+/**
+ * Builds the dictionaries for `config` once and returns a handler that runs
+ * batches against them. Used by each pool worker; packs listed in
+ * `languages` are loaded before the first batch runs.
+ */
+export function createBatchHandler(
+  config?: ProfanityBusterUserConfig,
+): (request: BatchRequest) => Promise<BatchResponse> {
+  const buster = new ProfanityBuster(config);
+  const languages = Array.isArray(config?.languages)
+    ? config.languages
+    : config?.languages?.enabled;
+  const ready = languages ? buster.loadLanguages(languages) : Promise.resolve();
+
+  return async ({ id, kind, texts }) => {
+    try {
+      await ready;
+      const results =
+        kind === 'detect'
+          ? texts.map((t) => buster.detect(t))
+          : texts.map((t) => buster.sanitize(t));
+      return { id, results };
+    } catch (err) {
+      return { id, error: err instanceof Error ? err.message : String(err) };
+    }
+  };
+}
@@ -0,0 +1,259 @@
+import { availableParallelism } from 'node:os';
+import { isMainThread, parentPort, Worker, workerData } from 'node:worker_threads';
+
+import type { DetectionResult, ProfanityBusterUserConfig } from '../../index';
+
+import { createBatchHandler, type BatchKind, type BatchRequest, type BatchResponse } from './batch';
+
+/** The part of a `worker_threads` Worker the pool relies on. */
+export interface PoolWorker {
+  postMessage(request: BatchRequest): void;
+  on(event: 'message', listener: (response: BatchResponse) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  on(event: 'exit', listener: (exitCode: number) => void): unknown;
+  terminate(): unknown;
+}
+
+export interface WorkerPoolOptions {
+  /** Worker count. Defaults to the available parallelism minus one (at least 1). */
+  size?: number;
+  /** Texts sent to a worker per message. Defaults to 64. */
+  batchSize?: number;
+  /** Batches queued on each worker besides the one it is running. Defaults to 1. */
+  maxQueuedPerWorker?: number;
+  /** Starts one worker. Defaults to a `worker_threads` Worker running this module. */
+  spawn?: (config: ProfanityBusterUserConfig | undefined) => PoolWorker;
+}
+
+export interface BatchOptions {
+  /** Aborting rejects the call, stops reading the input and drops batches not yet started. */
+  signal?: AbortSignal;
+}
+
+type TextSource = Iterable<string> | AsyncIterable<string>;
+
+interface Task {
+  request: BatchRequest;
+  resolve: (results: unknown[]) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PoolSlot {
+  worker: PoolWorker;
+  running: Map<number, Task>;
+}
+
+interface WorkerBootstrap {
+  profanityPoolWorker: true;
+  config?: ProfanityBusterUserConfig;
+}
+
+/**
+ * Runs `detect`/`sanitize` over many texts on a pool of worker threads. Each
+ * worker builds its own copy of the dictionaries from the same config.
+ *
+ * Results keep input order. Input is read lazily and at most
+ * `size * (1 + maxQueuedPerWorker)` batches are in flight per call, so
+ * `detectEach` over a large (async) iterable uses bounded memory when the
+ * consumer is slow.
+ */
+export class ProfanityWorkerPool {
+  private readonly slots: PoolSlot[] = [];
+  private readonly waiting: Task[] = [];
+  private readonly batchSize: number;
+  private readonly perWorkerLimit: number;
+  private readonly spawn: (config: ProfanityBusterUserConfig | undefined) => PoolWorker;
+  private nextId = 0;
+  private closed = false;
+
+  constructor(
+    private readonly config?: ProfanityBusterUserConfig,
+    options: WorkerPoolOptions = {},
+  ) {
+    const size = Math.max(1, options.size ?? availableParallelism() - 1);
+    this.batchSize = Math.max(1, options.batchSize ?? 64);
+    this.perWorkerLimit = 1 + Math.max(0, options.maxQueuedPerWorker ?? 1);
+    this.spawn = options.spawn ?? spawnThread;
+    for (let i = 0; i < size; i++) this.slots.push(this.startSlot());
+  }
+
+  get size(): number {
+    return this.slots.length;
+  }
+
+  async detectMany(texts: TextSource, options?: BatchOptions): Promise<DetectionResult[]> {
+    return collect(this.detectEach(texts, options));
+  }
+
+  async sanitizeMany(texts: TextSource, options?: BatchOptions): Promise<string[]> {
+    return collect(this.sanitizeEach(texts, options));
+  }
+
+  detectEach(texts: TextSource, options?: BatchOptions): AsyncGenerator<DetectionResult> {
+    return this.run<DetectionResult>('detect', texts, options);
+  }
+
+  sanitizeEach(texts: TextSource, options?: BatchOptions): AsyncGenerator<string> {
+    return this.run<string>('sanitize', texts, options);
+  }
+
+  /** Terminates the workers. Pending calls reject. */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    const error = new Error('ProfanityWorkerPool: closed');
+    for (const task of this.waiting.splice(0)) task.reject(error);
+    await Promise.all(
+      this.slots.map(async (slot) => {
+        for (const task of slot.running.values()) task.reject(error);
+        slot.running.clear();
+        await slot.worker.terminate();
+      }),
+    );
+  }
+
+  private async *run<T>(
+    kind: BatchKind,
+    texts: TextSource,
+    options?: BatchOptions,
+  ): AsyncGenerator<T> {
+    const signal = options?.signal;
+    signal?.throwIfAborted();
+    if (this.closed) throw new Error('ProfanityWorkerPool: closed');
+
+    const iterator = toAsyncIterator(texts);
+    const capacity = this.slots.length * this.perWorkerLimit;
+    const inFlight: { task: Task; done: Promise<unknown[]> }[] = [];
+    let exhausted = false;
+    const aborted = abortPromise(signal);
+
+    try {
+      for (;;) {
+        // Read ahead only while there is room, so a slow consumer pauses the input
+        while (!exhausted && inFlight.length < capacity) {
+          const batch: string[] = [];
+          while (batch.length < this.batchSize) {
+            const next = await Promise.race([iterator.next(), aborted.promise]);
+            if (next.done) {
+              exhausted = true;
+              break;
+            }
+            batch.push(next.value);
+          }
+          if (batch.length > 0) inFlight.push(this.submit(kind, batch));
+        }
+        const head = inFlight.shift();
+        if (!head) return;
+        const results = await Promise.race([head.done, aborted.promise]);
+        for (const result of results) yield result as T;
+      }
+    } finally {
+      // Aborted, failed or abandoned by the consumer: drop batches not yet started
+      for (const { task } of inFlight) this.cancel(task);
+      aborted.dispose();
+      if (!exhausted) await iterator.return?.();
+    }
+  }
+
+  private submit(kind: BatchKind, texts: string[]): { task: Task; done: Promise<unknown[]> } {
+    let task!: Task;
+    const done = new Promise<unknown[]>((resolve, reject) => {
+      task = { request: { id: this.nextId++, kind, texts }, resolve, reject };
+    });
+    // Cancelled batches may still settle; their outcome is ignored
+    done.catch(() => undefined);
+    this.waiting.push(task);
+    this.pump();
+    return { task, done };
+  }
+
+  private cancel(task: Task): void {
+    const index = this.waiting.indexOf(task);
+    if (index >= 0) this.waiting.splice(index, 1);
+  }
+
+  // Hands waiting batches to the least busy workers
+  private pump(): void {
+    while (this.waiting.length > 0 && !this.closed) {
+      let slot: PoolSlot | undefined;
+      for (const candidate of this.slots) {
+        if (candidate.running.size >= this.perWorkerLimit) continue;
+        if (!slot || candidate.running.size < slot.running.size) slot = candidate;
+      }
+      if (!slot) return;
+      const task = this.waiting.shift()!;
+      slot.running.set(task.request.id, task);
+      slot.worker.postMessage(task.request);
+    }
+  }
+
+  private startSlot(): PoolSlot {
+    const slot: PoolSlot = { worker: this.spawn(this.config), running: new Map() };
+    slot.worker.on('message', (response) => {
+      const task = slot.running.get(response.id);
+      if (!task) return;
+      slot.running.delete(response.id);
+      if ('error' in response) task.reject(new Error(response.error));
+      else task.resolve(response.results);
+      this.pump();
+    });
+    slot.worker.on('error', (error) => this.replaceSlot(slot, error));
+    // Also emitted after 'error' (the slot is replaced by then) and on close()
+    slot.worker.on('exit', (exitCode) => {
+      this.replaceSlot(slot, new Error(`ProfanityWorkerPool: worker exited with code ${exitCode}`));
+    });
+    return slot;
+  }
+
+  // The worker is gone: fail its batches and replace it
+  private replaceSlot(slot: PoolSlot, error: Error): void {
+    for (const task of slot.running.values()) task.reject(error);
+    slot.running.clear();
+    const index = this.slots.indexOf(slot);
+    if (this.closed || index < 0) return;
+    this.slots[index] = this.startSlot();
+    this.pump();
+  }
+}
+
+function spawnThread(config: ProfanityBusterUserConfig | undefined): PoolWorker {
+  const bootstrap: WorkerBootstrap = { profanityPoolWorker: true, config };
+  // Workers load this same module (the built `profanitybuster/node` entry)
+  return new Worker(new URL(import.meta.url), { workerData: bootstrap });
+}
+
+function toAsyncIterator(texts: TextSource): AsyncIterator<string> {
+  if (Symbol.asyncIterator in texts) return texts[Symbol.asyncIterator]();
+  const iterator = texts[Symbol.iterator]();
+  return {
+    next: async () => iterator.next(),
+    return: async () => iterator.return?.() ?? { done: true, value: undefined },
+  };
+}
+
+function abortPromise(signal?: AbortSignal): { promise: Promise<never>; dispose: () => void } {
+  if (!signal) return { promise: new Promise<never>(() => undefined), dispose: () => undefined };
+  let onAbort = (): void => undefined;
+  const promise = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+  });
+  promise.catch(() => undefined);
+  signal.addEventListener('abort', onAbort, { once: true });
+  return { promise, dispose: () => signal.removeEventListener('abort', onAbort) };
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of source) out.push(item);
+  return out;
+}
+
+// Inside a pool worker: serve batches until terminated
+const bootstrap = workerData as WorkerBootstrap | null;
+if (!isMainThread && parentPort && bootstrap?.profanityPoolWorker) {
+  const port = parentPort;
+  const handle = createBatchHandler(bootstrap.config);
+  port.on('message', (request: BatchRequest) => {
+    void handle(request).then((response) => port.postMessage(response));
+  });
+}
@@ -0,0 +1,185 @@
+// Built-in allowlists: ordinary words that contain a dictionary entry as a
+// substring (the "Scunthorpe problem"). Applied while the matching pack is
+// active unless `detection.useDefaultAllowlist` is false.
+
+const EN_ALLOWLIST: string[] = [
+  // ass / arse
+  'assassin',
+  'assault',
+  'assemble',
+  'assembly',
+  'assert',
+  'assess',
+  'asset',
+  'assign',
+  'assist',
+  'associate',
+  'assume',
+  'assure',
+  'bass',
+  'brass',
+  'class',
+  'compass',
+  'embarrass',
+  'embassy',
+  'glass',
+  'grass',
+  'harass',
+  'lass',
+  'mass',
+  'massage',
+  'passage',
+  'pass',
+  'sassy',
+  'cassette',
+  'coarse',
+  'hoarse',
+  'parse',
+  'sparse',
+  'arsenal',
+  'arsenic',
+  // anal
+  'analog',
+  'analogy',
+  'analyse',
+  'analysis',
+  'analyst',
+  'analytic',
+  'analyze',
+  'banal',
+  'canal',
+  // cunt
+  'scunthorpe',
+  // tit
+  'altitude',
+  'appetite',
+  'attitude',
+  'competition',
+  'constitute',
+  'constitution',
+  'entitle',
+  'institute',
+  'institution',
+  'latitude',
+  'partition',
+  'petite',
+  'petition',
+  'quantity',
+  'repetition',
+  'substitute',
+  'titan',
+  'title',
+  // hell
+  'hello',
+  'shell',
+  'michelle',
+  // cock / coon / crap
+  'cockatoo',
+  'cockpit',
+  'cockroach',
+  'cocktail',
+  'hancock',
+  'hitchcock',
+  'peacock',
+  'shuttlecock',
+  'cocoon',
+  'raccoon',
+  'tycoon',
+  'scrap',
+  'scrape',
+  'skyscraper',
+  // dick / bum / butt / muff / poop
+  'dickens',
+  'album',
+  'bumble',
+  'bumper',
+  'rebuttal',
+  'button',
+  'butter',
+  'buttress',
+  'muffin',
+  'muffle',
+  'nincompoop',
+  // sex / homo / cum-like collisions
+  'essex',
+  'middlesex',
+  'sussex',
+  'sextant',
+  'homogeneous',
+  'homologous',
+  'homonym',
+  // fag, with the opt-in "ph" -> "f" substitution
+  'bacteriophage',
+  'esophagus',
+  'esophageal',
+  'oesophagus',
+  'phagocyte',
+  'sarcophagus',
+  // misc
+  'therapist',
+  'shiitake',
+  'shitake',
+  'penistone',
+  'spunky',
+];
+
+const ES_ALLOWLIST: string[] = [
+  'computadora',
+  'disputa',
+  'diputado',
+  'imputar',
+  'reputacion',
+  'articulo',
+  'calculo',
+  'circulo',
+  'ridiculo',
+  'vehiculo',
+  'patrio',
+];
+
+const FR_ALLOWLIST: string[] = [
+  'concert',
+  'condition',
+  'conduire',
+  'confiance',
+  'conseil',
+  'construire',
+  'contact',
+  'content',
+  'contre',
+  'conversation',
+  'icone',
+  'culture',
+  'calcul',
+  'recul',
+];
+
+const DE_ALLOWLIST: string[] = ['fische', 'frische', 'tische', 'kritische', 'praktische'];
+
+const IT_ALLOWLIST: string[] = [
+  'banale',
+  'canale',
+  'magnifica',
+  'modifica',
+  'significa',
+  'specifica',
+  'verifica',
+];
+
+const PT_ALLOWLIST: string[] = [
+  'cultura',
+  'curso',
+  'cuidado',
+  'circular',
+  'computador',
+  'reputacao',
+];
+
+export const languageAllowlists: Record<string, string[]> = {
+  de: DE_ALLOWLIST,
+  en: EN_ALLOWLIST,
+  es: ES_ALLOWLIST,
+  fr: FR_ALLOWLIST,
+  it: IT_ALLOWLIST,
+  pt: PT_ALLOWLIST,
+};
@@ -1,4 +1,6 @@
 // Static import map to avoid dynamic import warnings in bundlers
+import type { DictionaryEntry } from '../core/entries';
+
 import AR, { AR_WORDS } from './ar';
 import CS, { CS_WORDS } from './cs';
 import DA, { DA_WORDS } from './da';
@@ -25,7 +27,7 @@ import TLH, { TLH_WORDS } from './tlh';
 import TR, { TR_WORDS } from './tr';
 import ZH, { ZH_WORDS } from './zh';
 
-export const languageWordMap: Record<string, string[]> = {
+export const languageWordMap: Record<string, DictionaryEntry[]> = {
   ar: AR_WORDS ?? AR,
   cs: CS_WORDS ?? CS,
   da: DA_WORDS ?? DA,
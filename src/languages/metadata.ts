@@ -0,0 +1,89 @@
+import type { EntryMetadata } from '../core/entries';
+
+// Hand-curated severity/category annotations, kept apart from the generated
+// word lists so re-running scripts/import-dirtywords.mjs does not drop them.
+// Terms without an annotation use DEFAULT_ENTRY_METADATA. Short words that
+// hide inside ordinary ones ("hello", "title") match as whole words only.
+
+const EN_METADATA: Record<string, EntryMetadata> = {
+  anal: { severity: 'moderate', categories: ['sexual'], boundary: 'whole' },
+  anus: { severity: 'mild', categories: ['sexual'] },
+  arse: { severity: 'mild', categories: ['insult'] },
+  ass: { severity: 'mild', categories: ['insult'], boundary: 'prefix' },
+  balls: { severity: 'mild', categories: ['sexual'] },
+  ballsack: { severity: 'moderate', categories: ['sexual'] },
+  bastard: { severity: 'moderate', categories: ['insult'] },
+  biatch: { severity: 'moderate', categories: ['insult'] },
+  bitch: { severity: 'moderate', categories: ['insult'] },
+  bloody: { severity: 'mild', categories: ['mild'] },
+  'blow job': { severity: 'moderate', categories: ['sexual'] },
+  blowjob: { severity: 'moderate', categories: ['sexual'] },
+  bollock: { severity: 'mild', categories: ['sexual'] },
+  bollok: { severity: 'mild', categories: ['sexual'] },
+  boner: { severity: 'mild', categories: ['sexual'] },
+  boob: { severity: 'mild', categories: ['sexual'] },
+  bugger: { severity: 'mild', categories: ['insult'] },
+  bum: { severity: 'mild', categories: ['mild'] },
+  butt: { severity: 'mild', categories: ['mild'] },
+  buttplug: { severity: 'moderate', categories: ['sexual'] },
+  clitoris: { severity: 'moderate', categories: ['sexual'] },
+  cock: { severity: 'moderate', categories: ['sexual'] },
+  coon: { severity: 'severe', categories: ['slur'] },
+  crap: { severity: 'mild', categories: ['scatological'] },
+  cunt: { severity: 'severe', categories: ['sexual', 'insult'] },
+  damn: { severity: 'mild', categories: ['religious', 'mild'] },
+  dick: { severity: 'moderate', categories: ['sexual', 'insult'] },
+  dildo: { severity: 'moderate', categories: ['sexual'] },
+  dyke: { severity: 'severe', categories: ['slur'] },
+  fag: { severity: 'severe', categories: ['slur'] },
+  feck: { severity: 'mild', categories: ['mild'] },
+  felching: { severity: 'moderate', categories: ['sexual'] },
+  fellate: { severity: 'moderate', categories: ['sexual'] },
+  fellatio: { severity: 'moderate', categories: ['sexual'] },
+  flange: { severity: 'moderate', categories: ['sexual'] },
+  fuck: { severity: 'moderate', categories: ['sexual'] },
+  fudgepacker: { severity: 'severe', categories: ['slur'] },
+  'fudge packer': { severity: 'severe', categories: ['slur'] },
+  goddamn: { severity: 'mild', categories: ['religious'] },
+  'god damn': { severity: 'mild', categories: ['religious'] },
+  hell: { severity: 'mild', categories: ['religious', 'mild'], boundary: 'whole' },
+  homo: { severity: 'severe', categories: ['slur'] },
+  jerk: { severity: 'mild', categories: ['insult'] },
+  jizz: { severity: 'moderate', categories: ['sexual'] },
+  knobend: { severity: 'moderate', categories: ['insult'] },
+  'knob end': { severity: 'moderate', categories: ['insult'] },
+  labia: { severity: 'moderate', categories: ['sexual'] },
+  lmao: { severity: 'mild', categories: ['mild'] },
+  lmfao: { severity: 'mild', categories: ['mild'] },
+  muff: { severity: 'moderate', categories: ['sexual'] },
+  nigga: { severity: 'severe', categories: ['slur'] },
+  nigger: { severity: 'severe', categories: ['slur'] },
+  omg: { severity: 'mild', categories: ['religious', 'mild'] },
+  penis: { severity: 'mild', categories: ['sexual'] },
+  piss: { severity: 'mild', categories: ['scatological'] },
+  poop: { severity: 'mild', categories: ['scatological', 'mild'] },
+  prick: { severity: 'moderate', categories: ['sexual', 'insult'] },
+  pube: { severity: 'moderate', categories: ['sexual'] },
+  pussy: { severity: 'moderate', categories: ['sexual', 'insult'] },
+  queer: { severity: 'severe', categories: ['slur'] },
+  's hit': { severity: 'moderate', categories: ['scatological'] },
+  scrotum: { severity: 'mild', categories: ['sexual'] },
+  sex: { severity: 'mild', categories: ['sexual'] },
+  sh1t: { severity: 'moderate', categories: ['scatological'] },
+  shit: { severity: 'moderate', categories: ['scatological'] },
+  slut: { severity: 'severe', categories: ['sexual', 'insult'] },
+  smegma: { severity: 'moderate', categories: ['sexual'] },
+  spunk: { severity: 'moderate', categories: ['sexual'] },
+  tit: { severity: 'moderate', categories: ['sexual'], boundary: 'whole' },
+  tosser: { severity: 'moderate', categories: ['insult'] },
+  turd: { severity: 'mild', categories: ['scatological'] },
+  twat: { severity: 'severe', categories: ['sexual', 'insult'] },
+  vagina: { severity: 'mild', categories: ['sexual'] },
+  wank: { severity: 'moderate', categories: ['sexual'] },
+  whore: { severity: 'severe', categories: ['sexual', 'insult'] },
+  wtf: { severity: 'mild', categories: ['mild'] },
+};
+
+export const languageEntryMetadata: Record<string, Record<string, EntryMetadata>> = {
+  en: EN_METADATA,
+};
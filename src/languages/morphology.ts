@@ -0,0 +1,135 @@
+import type { MorphologyRules } from '../core/morphology';
+
+// Inflection rules per pack. Each entry's forms are generated from them and
+// compiled into the trie/Aho–Corasick matchers next to the entry itself, so they
+// match in the same pass. They only need to cover the forms a slur or swear word
+// commonly takes; spurious forms ("putaes") never occur in
+// text and cost nothing but index size. Packs without rules (CJK, Thai, Arabic,
+// ...) match their entries as written. Cyrillic is escaped as in the normalizer.
+export const languageMorphology: Record<string, MorphologyRules> = {
+  cs: {
+    suffixes: ['a', 'u', 'e', 'em', 'y', 'ové', 'ů'],
+    endings: { a: ['y', 'u', 'o', 'ou', 'e', 'ám'] },
+  },
+  da: { suffixes: ['en', 'er', 'ene', 'erne', 'et', 'e', 's'] },
+  de: {
+    suffixes: ['e', 'en', 'er', 'ern', 'es', 'n', 's'],
+    endings: { en: ['t', 'te', 'ten', 'st', 'e'] },
+  },
+  en: { suffixes: ['s', 'es', 'ed', 'ing', 'er', 'ers'] },
+  eo: { suffixes: ['j', 'n', 'jn'] },
+  es: {
+    suffixes: ['s', 'es'],
+    endings: {
+      a: ['o', 'as', 'os'],
+      o: ['a', 'os', 'as'],
+      or: ['ora', 'oras', 'ores'],
+      ar: ['ando', 'ado', 'ada', 'ados', 'adas'],
+      er: ['iendo', 'ido', 'ida'],
+      ir: ['iendo', 'ido', 'ida'],
+    },
+  },
+  fi: {
+    suffixes: [
+      'n',
+      'a',
+      'ä',
+      't',
+      'ssa',
+      'ssä',
+      'sta',
+      'stä',
+      'lla',
+      'llä',
+      'lle',
+      'ksi',
+      'ja',
+      'jä',
+    ],
+  },
+  fr: { suffixes: ['s', 'e', 'es', 'x'], endings: { er: ['é', 'ée', 'és', 'ées', 'ant'] } },
+  hu: { suffixes: ['ok', 'ek', 'ak', 'ot', 'et', 'at', 't', 'nak', 'nek'] },
+  it: {
+    endings: { a: ['e', 'o', 'i'], o: ['a', 'i', 'e'], e: ['i'], are: ['ato', 'ata', 'ando'] },
+  },
+  nl: { suffixes: ['en', 's', 'e', 'je', 'jes'] },
+  no: { suffixes: ['en', 'er', 'ene', 'erne', 'et', 'e', 's'] },
+  pl: {
+    suffixes: ['a', 'u', 'em', 'ie', 'om', 'y', 'ami', 'ów'],
+    endings: { a: ['y', 'ie', 'ę', 'ą', 'o', 'om', 'ami'] },
+  },
+  pt: {
+    suffixes: ['s'],
+    endings: {
+      a: ['o', 'as', 'os'],
+      o: ['a', 'os', 'as'],
+      ar: ['ando', 'ado', 'ada'],
+      ão: ['ões', 'ães'],
+    },
+  },
+  // Noun cases, for transliterated ("suka" -> "suki", "sukoy") and Cyrillic entries
+  ru: {
+    suffixes: [
+      'a',
+      'u',
+      'om',
+      'e',
+      'i',
+      'y',
+      'ov',
+      'ami',
+      '\u0430',
+      '\u0443',
+      '\u043e\u043c',
+      '\u0435',
+      '\u0438',
+      '\u044b',
+      '\u043e\u0432',
+      '\u0430\u043c\u0438',
+    ],
+    endings: {
+      a: ['y', 'i', 'e', 'u', 'oy', 'oi'],
+      o: ['a', 'u', 'om', 'e'],
+      '\u0430': ['\u044b', '\u0438', '\u0435', '\u0443', '\u043e\u0439', '\u043e\u044e'],
+      '\u044f': ['\u0438', '\u0435', '\u044e', '\u0435\u0439'],
+      '\u043e': ['\u0430', '\u0443', '\u043e\u043c', '\u0435'],
+      '\u044c': ['\u0438', '\u044e', '\u0435\u0439', '\u044f', '\u0435\u043c'],
+      '\u0439': ['\u044f', '\u044e', '\u0435\u043c', '\u0438', '\u0435\u0432'],
+    },
+  },
+  sv: { suffixes: ['en', 'er', 'ar', 'arna', 'erna', 'et', 'a', 's'] },
+  tr: {
+    suffixes: [
+      'lar',
+      'ler',
+      'ı',
+      'i',
+      'u',
+      'ü',
+      'a',
+      'e',
+      'ın',
+      'in',
+      'un',
+      'ün',
+      'da',
+      'de',
+      'ta',
+      'te',
+      'dan',
+      'den',
+      'tan',
+      'ten',
+      'ları',
+      'leri',
+      'ların',
+      'lerin',
+      'lara',
+      'lere',
+      'larda',
+      'lerde',
+      'lardan',
+      'lerden',
+    ],
+  },
+};
@@ -0,0 +1,11 @@
+// Scripts each pack is written in whose combining marks carry meaning. Listing
+// a language in `detection.stripMarksLanguages` strips the marks of its scripts
+// too; a script shared by several packs (Arabic for ar and fa) is then stripped
+// for all of them.
+export const languageMarkScripts: Record<string, string[]> = {
+  ar: ['Arabic'],
+  fa: ['Arabic'],
+  hi: ['Devanagari'],
+  ja: ['Hiragana', 'Katakana'],
+  th: ['Thai'],
+};
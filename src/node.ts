@@ -0,0 +1,14 @@
+// Node.js-only entry point (`profanitybuster/node`). Kept separate from the main
+// entry so browser bundles never see `node:` imports.
+export { createSanitizerTransform } from './integrations/stream/nodeTransform';
+export {
+  ProfanityWorkerPool,
+  type BatchOptions,
+  type PoolWorker,
+  type WorkerPoolOptions,
+} from './integrations/workers/pool';
+export {
+  createBatchHandler,
+  type BatchRequest,
+  type BatchResponse,
+} from './integrations/workers/batch';
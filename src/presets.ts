@@ -25,6 +25,9 @@ export const highRecallPreset: Partial<ProfanityBusterConfig> = {
     ignoreSeparators: [' ', '.', '-', '_', '*'],
     stripDiacritics: true,
     useNFKC: false,
+    stripMarks: true,
+    collapseRepeats: true,
+    substitutions: { ph: 'f' }, // "phuck"; the en allowlist covers "esophagus" and the like
     enableInflections: true,
     algorithm: 'aho',
   },
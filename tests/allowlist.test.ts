@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProfanityBuster } from '../src';
+
+describe('Allowlist', () => {
+  it('suppresses substring false positives with the built-in allowlist', () => {
+    const buster = new ProfanityBuster();
+    for (const text of ['classic', 'assassin', 'Scunthorpe', 'analysis', 'title', 'hello']) {
+      expect(buster.detect(text).hasProfanity).toBe(false);
+    }
+    expect(buster.detect('hello you ass').matches.map((m) => m.word)).toEqual(['ass']);
+  });
+
+  it('can disable the built-in allowlist', () => {
+    const buster = new ProfanityBuster({
+      detection: {
+        customWords: [],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+        useDefaultAllowlist: false,
+      },
+    });
+    expect(buster.detect('Scunthorpe').hasProfanity).toBe(true);
+  });
+
+  it('supports user words, wildcards and RegExps', () => {
+    const buster = new ProfanityBuster({
+      detection: {
+        customWords: [],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+        allowlist: ['cockerel', 'shit*', /^moby\w*dick$/u],
+      },
+    });
+    expect(buster.detect('a cockerel crowed').hasProfanity).toBe(false);
+    expect(buster.detect('shitstorm').hasProfanity).toBe(false);
+    expect(buster.detect('read mobydick').hasProfanity).toBe(false);
+    // Wildcards cover whole tokens only
+    expect(buster.detect('bullshit storm').hasProfanity).toBe(true);
+  });
+});
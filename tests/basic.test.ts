@@ -63,6 +63,90 @@ describe('ProfanityBuster - basic', () => {
     expect(result.hasProfanity).toBe(true);
   });
 
+  it('skips separators only between spaced-out letters', () => {
+    const detection = {
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      customWords: ['zorbex'],
+      enableInflections: false,
+    };
+    for (const algorithm of ['trie', 'aho', 'compact'] as const) {
+      const buster = new ProfanityBuster({ detection: { ...detection, algorithm } });
+      expect(buster.detect('z o r b e x').hasProfanity).toBe(true);
+      expect(buster.detect('zor.bex').hasProfanity).toBe(true);
+      // Words that merely line up across a space, a long gap or a line break
+      expect(buster.detect('my glass hole').hasProfanity).toBe(false);
+      expect(buster.detect('the zor bex').hasProfanity).toBe(false);
+      expect(buster.detect('z o r b e xylophone').hasProfanity).toBe(false);
+      expect(buster.detect('z o r    b e x').hasProfanity).toBe(false);
+      expect(buster.detect('z o r b\ne x').hasProfanity).toBe(false);
+    }
+
+    const loose = new ProfanityBuster({
+      detection: {
+        ...detection,
+        ignoreSeparators: ['\n'],
+        separatorCategories: ['Zs', 'Pd'],
+        separatorSkipping: { singleLetters: 'never', maxGap: 8, lineBreaks: 'skip' },
+      },
+    });
+    expect(loose.detect('zor\u3000bex').hasProfanity).toBe(true);
+    expect(loose.detect('zor\u2014\nbex').hasProfanity).toBe(true);
+    expect(loose.detect('zor.bex').hasProfanity).toBe(false);
+    expect(
+      () => new ProfanityBuster({ detection: { ...detection, separatorCategories: ['Xx'] } }),
+    ).toThrow(RangeError);
+  });
+
+  it('matches inflections and spaced entries in the compiled matchers', () => {
+    for (const algorithm of ['trie', 'aho', 'compact'] as const) {
+      const buster = new ProfanityBuster({
+        detection: {
+          levenshteinDistance: 0,
+          caseSensitive: false,
+          wholeWordsOnly: false,
+          customWords: ['zorb bex'],
+          algorithm,
+        },
+      });
+      const stages = buster
+        .detect('fucking', { explain: true })
+        .matches.map((m) => [m.word, m.explanation?.stage]);
+      expect(stages).toEqual([
+        ['fucking', algorithm],
+        ['fuck', algorithm],
+      ]);
+      expect(buster.detect('a zorb bex').hasProfanity).toBe(true);
+      expect(buster.detect('a zorbbex').hasProfanity).toBe(true);
+      expect(buster.detect('a zo rbbex').hasProfanity).toBe(false);
+    }
+  });
+
+  it('builds the compact matcher with the same matches as the automaton', () => {
+    const detection = {
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      customWords: ['he', 'she', 'his', 'hers', 'zorb bex'],
+      enableInflections: false,
+      mode: 'exhaustive' as const,
+    };
+    const text = 'ushers and his zorb bex, sh1t';
+    const spans = (buster: ProfanityBuster): [string, number][] =>
+      buster.detect(text).matches.map((m) => [m.word, m.index]);
+    const aho = new ProfanityBuster({ detection: { ...detection, algorithm: 'aho' } });
+    const compact = new ProfanityBuster({ detection: { ...detection, algorithm: 'compact' } });
+    expect(spans(compact)).toEqual(spans(aho));
+    expect(compact.detect(text, { explain: true }).matches[0].explanation?.stage).toBe('compact');
+
+    // Rebuilt on every change, since the typed arrays are not extended in place
+    compact.addWord('zorbex');
+    expect(compact.detect('a zorbex').hasProfanity).toBe(true);
+    compact.setAlgorithm('trie');
+    expect(compact.detect('a zorbex').hasProfanity).toBe(true);
+  });
+
   it('supports management APIs to add/remove words and set languages', () => {
     const buster = new ProfanityBuster({
       languages: ['en'],
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProfanityBuster } from '../src';
+
+describe('Entry severity and categories', () => {
+  it('annotates matches with pack metadata', () => {
+    const buster = new ProfanityBuster();
+    const [match] = buster.detect('what the fuck').matches;
+    expect(match.severity).toBe('moderate');
+    expect(match.categories).toEqual(['sexual']);
+  });
+
+  it('accepts structured entries from addWord and customWords', () => {
+    const buster = new ProfanityBuster({
+      detection: {
+        customWords: [{ term: 'frak', severity: 'mild', categories: ['mild'] }],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: true,
+      },
+    });
+    buster.addWord({ term: 'blorp', severity: 'severe', categories: ['slur'] });
+    expect(buster.detect('oh frak').matches[0]).toMatchObject({
+      severity: 'mild',
+      categories: ['mild'],
+    });
+    expect(buster.detect('a blorp').matches[0]).toMatchObject({
+      severity: 'severe',
+      categories: ['slur'],
+    });
+  });
+
+  it('filters matches by minimum severity and disabled categories', () => {
+    const buster = new ProfanityBuster({
+      detection: {
+        customWords: [],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: true,
+        minSeverity: 'moderate',
+        disabledCategories: ['religious'],
+      },
+    });
+    expect(buster.detect('damn it').hasProfanity).toBe(false);
+    expect(buster.detect('omg').hasProfanity).toBe(false);
+    expect(buster.detect('shit').hasProfanity).toBe(true);
+  });
+
+  it('honors per-entry boundary modes', () => {
+    const detection = {
+      customWords: [
+        { term: 'zorb', boundary: 'substring' as const },
+        { term: 'blix', boundary: 'whole' as const },
+      ],
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: true,
+      enableInflections: false,
+    };
+    for (const algorithm of ['trie', 'aho', 'compact'] as const) {
+      const buster = new ProfanityBuster({
+        languages: ['en'],
+        detection: { ...detection, algorithm },
+      });
+      buster.addWord({ term: 'kronk', boundary: 'prefix' });
+      expect(buster.detect('megazorbing').hasProfanity).toBe(true);
+      expect(buster.detect('a blix').hasProfanity).toBe(true);
+      expect(buster.detect('blixes').hasProfanity).toBe(false);
+      expect(buster.detect('kronkface').hasProfanity).toBe(true);
+      expect(buster.detect('bigkronk').hasProfanity).toBe(false);
+      const sanitizer = buster.createStreamSanitizer();
+      expect(sanitizer.write('megazor') + sanitizer.write('bing kronk') + sanitizer.end()).toBe(
+        'megaz***ing k****',
+      );
+    }
+  });
+
+  it('keeps every entry that shares a form, in any insertion order', () => {
+    const zorks = 'zorks';
+    const zork = { term: 'zork', boundary: 'whole' as const };
+    for (const customWords of [
+      [zorks, zork],
+      [zork, zorks],
+    ]) {
+      const found = (['trie', 'aho', 'compact'] as const).map((algorithm) => {
+        const config = {
+          detection: {
+            customWords,
+            levenshteinDistance: 0,
+            caseSensitive: false,
+            wholeWordsOnly: false,
+            algorithm,
+          },
+        };
+        const buster = new ProfanityBuster(config);
+        const restored = ProfanityBuster.fromCompiled(buster.exportCompiled(), config);
+        expect(restored.detect('xzorksx').matches).toEqual(buster.detect('xzorksx').matches);
+        return buster.detect('xzorksx').matches.map((m) => [m.word, m.index, m.length]);
+      });
+      expect(found).toEqual([[['zorks', 1, 5]], [['zorks', 1, 5]], [['zorks', 1, 5]]]);
+    }
+  });
+
+  it('matches short pack words only at word boundaries', () => {
+    const buster = new ProfanityBuster({
+      detection: {
+        customWords: [],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+        useDefaultAllowlist: false,
+      },
+    });
+    for (const text of ['hello', 'title', 'analysis', 'classic']) {
+      expect(buster.detect(text).hasProfanity).toBe(false);
+    }
+    for (const text of ['go to hell', 'asshat', 'motherfucking']) {
+      expect(buster.detect(text).hasProfanity).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProfanityBuster, type ProfanityBusterUserConfig } from '../src';
+import { EditCostModel } from '../src/core/editDistance';
+import { FuzzyIndex } from '../src/core/fuzzy';
+
+describe('Fuzzy index', () => {
+  it('reports every approximate occurrence with its distance', () => {
+    const buster = new ProfanityBuster({
+      languages: ['en'],
+      detection: {
+        customWords: [],
+        levenshteinDistance: 1,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+      },
+    });
+    const text = 'bastqrd, then bastarf';
+    const found = buster
+      .detect(text, { explain: true })
+      .matches.map((m) => [text.slice(m.index, m.index + m.length), m.explanation?.distance]);
+    expect(found).toEqual([
+      ['bastqrd', 0.5], // q and a are neighbouring keys
+      ['bastarf', 0.5],
+    ]);
+  });
+
+  it('picks the closest slice per start and honours whole-word boundaries', () => {
+    const index = new FuzzyIndex();
+    index.insert('tosser', 1);
+    index.insert('bollocks', 2);
+    index.insert('arse', 0); // no budget: left to the exact stages
+
+    expect(index.size).toBe(2);
+    const loose = index.findAllMatches('tossr bolocksy arse', {
+      wholeWordsOnly: false,
+      tokenBounded: true,
+    });
+    expect(loose.map((m) => [m.term, m.index, m.length, m.distance])).toEqual([
+      ['tosser', 0, 5, 1],
+      ['bollocks', 6, 7, 1],
+    ]);
+
+    const whole = index.findAllMatches('tossr bolocksy', {
+      wholeWordsOnly: true,
+      tokenBounded: true,
+    });
+    expect(whole.map((m) => [m.term, m.length, m.distance])).toEqual([
+      ['tosser', 5, 1],
+      ['bollocks', 8, 2],
+    ]);
+  });
+
+  it('does not drop the leading letters of a word to match a shorter one', () => {
+    const buster = new ProfanityBuster();
+    expect(buster.detect('a punk band').hasProfanity).toBe(false);
+    expect(buster.detect('a spunk band').hasProfanity).toBe(true);
+
+    const index = new FuzzyIndex();
+    index.insert('spunk', 1);
+    const options = { wholeWordsOnly: false, tokenBounded: false };
+    expect(index.findAllMatches('punk', options)).toEqual([]);
+    expect(index.findAllMatches('spnk', options).map((m) => m.term)).toEqual(['spunk']);
+  });
+
+  it('finds near misses in a large synthetic dictionary', () => {
+    const index = new FuzzyIndex();
+    for (let i = 0; i < 20_000; i++) index.insert(`w${i.toString(36)}qzx${i % 97}`, 1);
+    index.insert('scoundrel', 1);
+    const matches = index.findAllMatches('what a scoundrell', {
+      wholeWordsOnly: false,
+      tokenBounded: true,
+    });
+    expect(matches.map((m) => m.term)).toEqual(['scoundrel']);
+  });
+
+  it('weights transpositions, neighbouring keys and look-alikes', () => {
+    const weighted = new FuzzyIndex(new EditCostModel());
+    const plain = new FuzzyIndex();
+    weighted.insert('fuck', 1);
+    plain.insert('fuck', 2);
+    const options = { wholeWordsOnly: true, tokenBounded: true };
+    const distances = (index: FuzzyIndex, text: string): number[] =>
+      index.findAllMatches(text, options).map((m) => m.distance);
+
+    expect(distances(weighted, 'fcuk')).toEqual([1]);
+    expect(distances(plain, 'fcuk')).toEqual([2]);
+    expect(distances(weighted, 'fyck')).toEqual([0.5]); // y sits next to u
+    expect(distances(weighted, 'fbck')).toEqual([1]);
+    expect(distances(weighted, 'fuek')).toEqual([0.5]); // c and e look alike
+
+    const azerty = new FuzzyIndex(
+      new EditCostModel({ keyboardLayouts: ['azerty'], confusablePairs: [] }),
+    );
+    azerty.insert('fuck', 1);
+    expect(distances(azerty, 'fuxk')).toEqual([0.5]);
+    expect(distances(azerty, 'fucm')).toEqual([1]); // neighbours on QWERTY only
+    expect(distances(weighted, 'fucm')).toEqual([0.5]);
+    expect(() => new EditCostModel({ costs: { insertion: 0 } })).toThrow(RangeError);
+  });
+
+  it('accepts fractional budgets', () => {
+    const buster = new ProfanityBuster({
+      languages: ['en'],
+      detection: {
+        customWords: [],
+        levenshteinDistance: 0.5,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+      },
+    });
+    expect(buster.detect('bastqrd').hasProfanity).toBe(true);
+    expect(buster.detect('bastxrd').hasProfanity).toBe(false);
+  });
+
+  it('scales the budget down for four-letter words instead of dropping it', () => {
+    const config = (levenshteinDistance: number): ProfanityBusterUserConfig => ({
+      languages: ['en'],
+      detection: {
+        customWords: [],
+        levenshteinDistance,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+      },
+    });
+    const loose = new ProfanityBuster(config(2));
+    expect(loose.detect('what the fcuk').matches.map((m) => m.word)).toEqual(['fuck']);
+    expect(loose.detect('what the fyck').hasProfanity).toBe(true);
+    expect(loose.detect('good luck').hasProfanity).toBe(false); // not "fuck": first letter kept
+
+    const standard = new ProfanityBuster(config(1)); // 0.8 pays for no ordinary edit
+    expect(standard.detect('shut the door, a good shot').hasProfanity).toBe(false);
+    expect(standard.detect('what the fcuk').hasProfanity).toBe(false);
+  });
+});
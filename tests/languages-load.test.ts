@@ -44,4 +44,73 @@ describe('Language packs load and detect', () => {
       expect(result.hasProfanity).toBe(true);
     }
   });
+
+  it("inflects entries with their own language's rules", async () => {
+    const detection = {
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: true,
+      customWords: [],
+    };
+    const buster = new ProfanityBuster({ languages: ['en'], detection });
+    await buster.loadLanguages(['es', 'ru']);
+    expect(buster.detect('eres un puto').hasProfanity).toBe(true);
+    expect(buster.detect('putas').hasProfanity).toBe(true);
+    expect(buster.detect('\u0445\u0443\u044e').hasProfanity).toBe(true); // dative of the ru entry
+    // English suffixes no longer apply to other languages
+    expect(buster.detect('putaing').hasProfanity).toBe(false);
+    expect(buster.detect('fucking').hasProfanity).toBe(true);
+
+    // A language without rules matches its entries as written
+    const plain = new ProfanityBuster({ languages: ['en', 'xx'], detection });
+    plain.addWord('zorb', 'xx');
+    expect(plain.detect('zorbs').hasProfanity).toBe(false);
+    const custom = new ProfanityBuster({
+      languages: ['en', 'xx'],
+      detection: { ...detection, morphology: { xx: { suffixes: ['s'] } } },
+    });
+    custom.addWord('zorb', 'xx');
+    expect(custom.detect('zorbs').hasProfanity).toBe(true);
+  });
+
+  it('can scan one automaton combining every language', async () => {
+    const text = "shit, esto es una mierda, c'est de la merde";
+    const detection = {
+      algorithm: 'aho' as const,
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      customWords: [],
+    };
+    const summarize = async (combineLanguages: boolean): Promise<string[]> => {
+      const buster = new ProfanityBuster({
+        languages: ['en'],
+        detection: { ...detection, combineLanguages, mode: 'exhaustive' },
+      });
+      await buster.loadLanguages(['es', 'fr']);
+      return buster.detect(text).matches.map((m) => `${m.word}:${m.language}`);
+    };
+    const combined = await summarize(true);
+    expect(combined).toEqual(await summarize(false));
+    expect(combined).toEqual(expect.arrayContaining(['shit:en', 'mierda:es', 'merde:fr']));
+
+    const buster = new ProfanityBuster({
+      languages: ['en'],
+      detection: { ...detection, combineLanguages: true },
+    });
+    await buster.loadLanguages(['es']);
+    buster.removeWord('mierda', 'es');
+    buster.addWord('zorbex', 'es');
+    expect(buster.detect('una mierda').hasProfanity).toBe(false);
+    expect(buster.detect('un zorbex').matches[0].language).toBe('es');
+    expect(buster.detect('shit').matches[0].language).toBe('en');
+
+    // Removed words leave no nodes behind
+    const size = buster.exportCompiled().byteLength;
+    for (let i = 0; i < 5; i++) buster.addWord(`quxlebarf${i}`, 'es');
+    for (let i = 0; i < 5; i++) buster.removeWord(`quxlebarf${i}`, 'es');
+    expect(buster.exportCompiled().byteLength).toBe(size);
+    expect(buster.detect('un zorbex').matches[0].language).toBe('es');
+    expect(buster.detect('shit').matches[0].language).toBe('en');
+  });
 });
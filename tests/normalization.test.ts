@@ -0,0 +1,286 @@
+import { describe, expect, it } from 'vitest';
+
+import { highRecallPreset, ProfanityBuster } from '../src';
+import { normalizeWithOffsets, toSourceSpan } from '../src/core/normalization';
+
+const options = {
+  caseSensitive: false,
+  confusableMapping: true,
+  stripDiacritics: true,
+  useNFKC: true,
+  lengthPreserving: false,
+  stripInvisible: true,
+};
+
+function slices(buster: ProfanityBuster, text: string): string[] {
+  return buster.detect(text).matches.map((m) => text.slice(m.index, m.index + m.length));
+}
+
+function words(buster: ProfanityBuster, text: string): string[] {
+  return buster.detect(text).matches.map((m) => m.word);
+}
+
+describe('Normalization offset map', () => {
+  it('maps expanded, composed and removed characters back to the source', () => {
+    const input = 'a\uFB01 e\u0301\u200Bx';
+    const normalized = normalizeWithOffsets(input, options);
+    expect(normalized.text).toBe('afi ex');
+    // both units of the "ﬁ" expansion point at the ligature
+    expect(toSourceSpan(normalized, 1, 2)).toEqual({ index: 1, length: 1 });
+    // "e" covers its combining accent; the dropped zero-width space sits inside "ex"
+    expect(toSourceSpan(normalized, 4, 2)).toEqual({ index: 3, length: 4 });
+  });
+
+  it('reports original offsets for NFKC, ligatures, diacritics and invisibles', () => {
+    const buster = new ProfanityBuster({
+      detection: {
+        customWords: ['fist'],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+        useNFKC: true,
+      },
+    });
+    expect(slices(buster, 'ok ｓｈｉｔ ok')).toEqual(['ｓｈｉｔ']);
+    expect(slices(buster, 'a ﬁst b')).toEqual(['ﬁst']);
+    expect(slices(buster, 'oh shít!')).toEqual(['shít']);
+    expect(buster.sanitize('x f\u200Bu\u200Bck y')).toBe('x f***** y');
+  });
+
+  it('collapses elongated letters but keeps real double letters', () => {
+    const normalized = normalizeWithOffsets('fuuuuck boot', { ...options, collapseRepeats: true });
+    expect(normalized.text).toBe('fuck boot');
+    expect(normalized.repeats?.slice(0, 4)).toEqual([1, 4, 1, 1]);
+    expect(toSourceSpan(normalized, 0, 4)).toEqual({ index: 0, length: 7 });
+
+    const buster = new ProfanityBuster({
+      detection: {
+        customWords: ['bollock'],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+        collapseRepeats: true,
+        mode: 'exhaustive',
+      },
+    });
+    expect(slices(buster, 'shiiiiit, biiiitch')).toEqual(['shiiiiit', 'biiiitch']);
+    expect(slices(buster, 'asssss and bolllllock')).toEqual(['asssss', 'bolllllock']);
+    expect(words(buster, 'kiss my asssss, shiiiiit')).toEqual(['ass', 'shit']);
+    expect(words(buster, 'asssss and bolllllock')).toEqual(['ass', 'bollock']);
+    expect(slices(buster, 'ass, a s s, bollock')).toEqual(['ass', 'a s s', 'bollock']);
+    expect(slices(buster, 'as you wish')).toEqual([]);
+  });
+
+  it('applies multi-character substitutions and masks the whole sequence', () => {
+    const base = {
+      customWords: ['wank'],
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      mode: 'exhaustive' as const,
+    };
+    const buster = new ProfanityBuster({ detection: { ...base, substitutions: { ph: 'f' } } });
+    expect(slices(buster, 'PHUCK, \\/\\/ank and f|_|c|<')).toEqual([
+      'PHUCK',
+      '\\/\\/ank',
+      'f|_|c|<',
+    ]);
+    expect(buster.sanitize('a f|_|c|<')).toBe('a f******');
+
+    const custom = new ProfanityBuster({
+      detection: { ...base, useDefaultSubstitutions: false, substitutions: { 'w@': 'wa' } },
+    });
+    expect(slices(custom, 'w@nk \\/\\/ank')).toEqual(['w@nk']);
+  });
+
+  it('keeps ordinary "ph" words clean, by default and with the high-recall preset', () => {
+    const text = 'the esophagus, a sarcophagus and a bacteriophage';
+    expect(new ProfanityBuster().detect(text).hasProfanity).toBe(false);
+    expect(new ProfanityBuster().detect('phuck').hasProfanity).toBe(false);
+    const highRecall = new ProfanityBuster({ ...highRecallPreset, languages: ['en'] });
+    expect(highRecall.detect(text).hasProfanity).toBe(false);
+    expect(highRecall.detect('phuck you').hasProfanity).toBe(true);
+  });
+
+  it('tries every reading of ambiguous look-alikes in both matchers', () => {
+    for (const algorithm of ['trie', 'aho', 'compact'] as const) {
+      const buster = new ProfanityBuster({
+        detection: {
+          customWords: ['loser', 'balls'],
+          levenshteinDistance: 0,
+          caseSensitive: false,
+          wholeWordsOnly: false,
+          mode: 'exhaustive',
+          algorithm,
+        },
+      });
+      expect(slices(buster, '1oser, ba11s and sh!t')).toEqual(['1oser', 'ba11s', 'sh!t']);
+      expect(words(buster, '1oser, ba11s and sh!t')).toEqual(['loser', 'balls', 'shit']);
+    }
+    const primaryOnly = new ProfanityBuster({
+      detection: {
+        customWords: ['loser'],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+        maxConfusableBranches: 1,
+      },
+    });
+    expect(slices(primaryOnly, '1oser')).toEqual([]);
+    expect(normalizeWithOffsets('a1|', options).alternatives).toEqual(
+      new Map([
+        [1, ['l']],
+        [2, ['l']],
+      ]),
+    );
+  });
+
+  it('folds cross-script homoglyphs and reports mixed-script tokens', () => {
+    const detection = {
+      customWords: [],
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      mode: 'exhaustive' as const,
+    };
+    const buster = new ProfanityBuster({ detection });
+    // Cyrillic "\u0441" and Ukrainian "\u0456"; Greek omicron in "g\u03bfod"
+    const text = 'fu\u0441k, sh\u0456t and g\u03bfod';
+    const result = buster.detect(text, { explain: true });
+    expect(result.matches.map((m) => m.explanation?.normalization)).toEqual([
+      ['script'],
+      ['script'],
+    ]);
+    expect(result.suspicious?.map((t) => [t.token, t.scripts])).toEqual([
+      ['fu\u0441k', ['Latin', 'Cyrillic']],
+      ['sh\u0456t', ['Latin', 'Cyrillic']],
+      ['g\u03bfod', ['Latin', 'Greek']],
+    ]);
+    expect(buster.detect('hello').suspicious).toBeUndefined();
+
+    const unfolded = new ProfanityBuster({ detection: { ...detection, foldCrossScript: false } });
+    const plain = unfolded.detect(text);
+    expect(plain.hasProfanity).toBe(false);
+    expect(plain.suspicious).toHaveLength(3);
+  });
+
+  it('matches uppercase Cyrillic like lowercase with cross-script folding on', async () => {
+    const buster = new ProfanityBuster({
+      languages: { enabled: ['en'], autoDetect: false, fallback: 'en' },
+      detection: {
+        customWords: [],
+        levenshteinDistance: 0,
+        caseSensitive: false,
+        wholeWordsOnly: false,
+      },
+    });
+    await buster.loadLanguages(['ru']);
+    // "gandon", "bardak" and "govno" in capitals
+    for (const word of [
+      '\u0413\u0410\u041d\u0414\u041e\u041d',
+      '\u0411\u0410\u0420\u0414\u0410\u041a',
+      '\u0413\u041e\u0412\u041d\u041e',
+    ]) {
+      expect(buster.detect(word).hasProfanity).toBe(true);
+      expect(buster.detect(word.toLowerCase()).hasProfanity).toBe(true);
+    }
+  });
+
+  it('folds styled letter alphabets and masks the styled source characters', () => {
+    const detection = {
+      customWords: [],
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      mode: 'exhaustive' as const,
+    };
+    const buster = new ProfanityBuster({ detection });
+    const styled = [
+      'ｆｕｃｋ', // fullwidth
+      'ⓕⓤⓒⓚ', // circled
+      '\u{1d41f}\u{1d42e}\u{1d41c}\u{1d424}', // math bold
+      '\u{1f155}\u{1f164}\u{1f152}\u{1f15a}', // negative circled
+      'ꜰᴜᴄᴋ', // small caps
+    ];
+    for (const word of styled) {
+      const text = `ok ${word}!`;
+      expect(slices(buster, text)).toEqual([word]);
+      expect(
+        buster.detect(text, { explain: true }).matches[0].explanation?.normalization,
+      ).toContain('styled');
+      expect(buster.sanitize(text)).toBe(`ok ${Array.from(word)[0]}***!`);
+    }
+    // Regional indicators read as letters, with the usual separators between them
+    const flags = '\u{1f1eb} \u{1f1fa} \u{1f1e8} \u{1f1f0}';
+    expect(slices(buster, `a ${flags} b`)).toEqual([flags]);
+
+    const unfolded = new ProfanityBuster({ detection: { ...detection, foldStyledLetters: false } });
+    expect(unfolded.detect(`${flags} ꜰᴜᴄᴋ`).hasProfanity).toBe(false);
+  });
+
+  it('strips zalgo marks but keeps the marks of scripts that need them', () => {
+    const zalgo = 'f\u0489u\u20d2\u1dc4c\u0483\ufe20k';
+    // "kutta" in Devanagari: vowel signs and a virama
+    const hindi = '\u0915\u0941\u0924\u094d\u0924\u093e';
+    const hindiZalgo = '\u0915\u0941\u20d2\u0924\u094d\u0924\u093e';
+    const detection = {
+      customWords: [hindi],
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      mode: 'exhaustive' as const,
+    };
+
+    const plain = new ProfanityBuster({ detection });
+    expect(plain.detect(zalgo).hasProfanity).toBe(false);
+
+    const stripped = new ProfanityBuster({ detection: { ...detection, stripMarks: true } });
+    expect(slices(stripped, `x ${zalgo}!`)).toEqual([zalgo]);
+    expect(stripped.sanitize(`x ${zalgo}!`)).toBe(`x f\u0489***!`);
+    expect(
+      stripped.detect(zalgo, { explain: true }).matches[0].explanation?.normalization,
+    ).toContain('marks');
+    // Devanagari marks are spelling, so they stay unless the language opts in
+    expect(slices(stripped, hindi)).toEqual([hindi]);
+    expect(stripped.detect(hindiZalgo).hasProfanity).toBe(false);
+
+    const hi = new ProfanityBuster({
+      detection: { ...detection, stripMarks: true, stripMarksLanguages: ['hi'] },
+    });
+    expect(slices(hi, `x ${hindiZalgo} y`)).toEqual([hindiZalgo]);
+    expect(slices(hi, zalgo)).toEqual([zalgo]);
+  });
+
+  it('decodes entities and percent-encoding and scans rot13 and base64 readings', () => {
+    const detection = {
+      customWords: [],
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      mode: 'exhaustive' as const,
+    };
+    const inline = new ProfanityBuster({
+      detection: { ...detection, decoding: { htmlEntities: true, percentEncoding: true } },
+    });
+    expect(slices(inline, 'x &#102;&#x75;ck y')).toEqual(['&#102;&#x75;ck']);
+    expect(slices(inline, 'x %46%55%43%4B y')).toEqual(['%46%55%43%4B']);
+    expect(slices(inline, 'a &amp; %C3%A9 %zz caf%C3 ok')).toEqual([]);
+    expect(inline.sanitize('x %66uck y')).toBe('x %***** y');
+    expect(
+      inline.detect('&#115;hit', { explain: true }).matches[0].explanation?.normalization,
+    ).toEqual(['decoded']);
+    expect(new ProfanityBuster({ detection }).detect('&#102;&#117;ck').hasProfanity).toBe(false);
+
+    const readings = new ProfanityBuster({
+      detection: { ...detection, decoding: { rot13: true, base64: true } },
+    });
+    const text = 'rot13 shpx, base64 ZnVjaw== and plain password';
+    const result = readings.detect(text, { explain: true });
+    expect(
+      result.matches.map((m) => [m.word, m.explanation?.original, m.explanation?.encoding]),
+    ).toEqual([
+      ['fuck', 'shpx', 'rot13'],
+      ['fuck', 'ZnVjaw==', 'base64'],
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProfanityBuster, type MatchResolution, type ProfanityBusterUserConfig } from '../src';
+
+function config(
+  overrides: Partial<ProfanityBusterUserConfig['detection']>,
+): ProfanityBusterUserConfig {
+  return {
+    languages: ['en'],
+    detection: {
+      customWords: [],
+      levenshteinDistance: 1,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      ...overrides,
+    },
+  };
+}
+
+describe('Detection modes', () => {
+  it("'first' skips phrase and fuzzy stages once an exact hit exists", () => {
+    const buster = new ProfanityBuster(config({ mode: 'first' }));
+    buster.addPhrase('go to heck');
+    const words = buster.detect('shit, go to heck, bastqrd').matches.map((m) => m.word);
+    expect(words).toEqual(['shit']);
+  });
+
+  it("'exhaustive' reports every language, phrase and fuzzy hit sorted by index", async () => {
+    const buster = new ProfanityBuster(config({ mode: 'exhaustive' }));
+    await buster.loadLanguages(['es']);
+    buster.addPhrase('go to heck');
+    const { matches } = buster.detect('mierda, go to heck, bastqrd and shit and bastqrd');
+    const summary = matches.map((m) => [m.word, m.index, m.language]);
+    expect(summary).toContainEqual(['mierda', 0, 'es']);
+    expect(summary).toContainEqual(['go to heck', 8, 'en']);
+    expect(summary).toContainEqual(['bastard', 20, 'en']);
+    expect(summary).toContainEqual(['shit', 32, 'en']);
+    expect(summary).toContainEqual(['bastard', 41, 'en']);
+    const indices = matches.map((m) => m.index);
+    expect(indices).toEqual([...indices].sort((a, b) => a - b));
+    const keys = matches.map((m) => `${m.index}:${m.length}:${m.language}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
+
+describe('Match resolution', () => {
+  const text = 'you fucking bitches';
+
+  function spans(resolution: MatchResolution): string[] {
+    const buster = new ProfanityBuster(config({ resolution, levenshteinDistance: 0 }));
+    return buster.detect(text).matches.map((m) => text.slice(m.index, m.index + m.length));
+  }
+
+  it("'all-overlapping' keeps nested spans in position order", () => {
+    expect(spans('all-overlapping')).toEqual(['fucking', 'fuck', 'bitches', 'bitch']);
+  });
+
+  it("'leftmost-longest' keeps the longest span at each start", () => {
+    expect(spans('leftmost-longest')).toEqual(['fucking', 'bitches']);
+  });
+
+  it("'non-overlapping-by-severity' prefers the more severe entry", () => {
+    const buster = new ProfanityBuster(
+      config({
+        resolution: 'non-overlapping-by-severity',
+        levenshteinDistance: 0,
+        enableInflections: false,
+        customWords: [
+          { term: 'badword', severity: 'mild' },
+          { term: 'wordzilla', severity: 'severe' },
+        ],
+      }),
+    );
+    const input = 'badwordzilla';
+    const kept = buster.detect(input).matches.map((m) => input.slice(m.index, m.index + m.length));
+    expect(kept).toEqual(['wordzilla']);
+  });
+
+  it("'non-overlapping-by-severity' keeps the longer span on equal severity", () => {
+    const buster = new ProfanityBuster(
+      config({
+        resolution: 'non-overlapping-by-severity',
+        levenshteinDistance: 0,
+        enableInflections: false,
+        customWords: [
+          { term: 'qbcd', severity: 'moderate' },
+          { term: 'cdefghi', severity: 'moderate' },
+        ],
+      }),
+    );
+    const input = 'qbcdefghi';
+    const kept = buster.detect(input).matches.map((m) => input.slice(m.index, m.index + m.length));
+    expect(kept).toEqual(['cdefghi']);
+  });
+});
+
+describe('Explain mode', () => {
+  it('reports stage, entry, pack and normalization for exact hits', () => {
+    const buster = new ProfanityBuster(config({}));
+    const [match] = buster.detect('F.U.C.K and Sh1t', { explain: true }).matches;
+    expect(match.explanation).toEqual({
+      stage: 'trie',
+      entry: 'fuck',
+      pack: 'en',
+      original: 'F.U.C.K',
+      normalized: 'f.u.c.k',
+      normalization: ['case', 'separators'],
+    });
+    expect(buster.detect('F.U.C.K').matches[0].explanation).toBeUndefined();
+  });
+
+  it('reports edit distance for fuzzy hits and the stored phrase for phrase hits', () => {
+    const buster = new ProfanityBuster(config({ mode: 'exhaustive' }));
+    buster.addPhrase('go to heck');
+    const explained = buster
+      .detect('bastqrd, go to the heck', { explain: true })
+      .matches.map((m) => m.explanation);
+    expect(explained).toContainEqual(
+      expect.objectContaining({
+        stage: 'fuzzy',
+        entry: 'bastard',
+        distance: 0.5, // q and a are neighbouring keys
+        original: 'bastqrd',
+      }),
+    );
+    expect(explained).toContainEqual(
+      expect.objectContaining({ stage: 'phrase', entry: 'go to heck', original: 'go to the heck' }),
+    );
+  });
+});
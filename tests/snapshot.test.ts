@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProfanityBuster, type ProfanityBusterUserConfig } from '../src';
+
+const detection = {
+  levenshteinDistance: 0,
+  caseSensitive: false,
+  wholeWordsOnly: false,
+  customWords: [
+    'zorbex',
+    { term: 'quxle', severity: 'severe' as const, boundary: 'whole' as const },
+  ],
+  mode: 'exhaustive' as const,
+};
+
+const text = 'zorbexes, a quxle, sh1t happens: c est de la merde, you son of a bitch';
+
+function spans(buster: ProfanityBuster): [string, number, string][] {
+  return buster.detect(text).matches.map((m) => [m.word, m.index, m.language]);
+}
+
+describe('ProfanityBuster - compiled snapshots', () => {
+  it('restores wordlists, phrases and matchers from exportCompiled()', async () => {
+    const configs: ProfanityBusterUserConfig[] = [
+      { detection: { ...detection, algorithm: 'trie' } },
+      { detection: { ...detection, algorithm: 'aho', combineLanguages: true } },
+      { detection: { ...detection, algorithm: 'compact' } },
+    ];
+    for (const config of configs) {
+      const original = new ProfanityBuster(config);
+      await original.loadLanguages(['fr']);
+      original.addPhrase('son of a bitch');
+      const restored = ProfanityBuster.fromCompiled(original.exportCompiled(), config);
+      expect(spans(restored)).toEqual(spans(original));
+      expect(spans(restored).map(([word]) => word)).toEqual(
+        expect.arrayContaining(['zorbexes', 'quxle', 'merde', 'son of a bitch']),
+      );
+      expect(restored.detect('aquxle').hasProfanity).toBe(false); // boundary kept
+      expect(restored.createStreamSanitizer().end()).toBe('');
+
+      // Still editable, and exportable again
+      restored.addWord('blarg', 'fr');
+      expect(restored.detect('un blarg').hasProfanity).toBe(true);
+      const again = ProfanityBuster.fromCompiled(restored.exportCompiled(), config);
+      expect(again.detect('un blarg').hasProfanity).toBe(true);
+    }
+  });
+
+  it('rejects snapshots compiled with other settings or in another format', () => {
+    const config = { detection };
+    const buffer = new ProfanityBuster(config).exportCompiled();
+    expect(() =>
+      ProfanityBuster.fromCompiled(buffer, {
+        detection: { ...detection, confusableMapping: false },
+      }),
+    ).toThrow(/different normalization settings/);
+    expect(() =>
+      ProfanityBuster.fromCompiled(buffer, { detection: { ...detection, algorithm: 'aho' } }),
+    ).toThrow(/different algorithm settings/);
+    expect(() => ProfanityBuster.fromCompiled(new ArrayBuffer(16), config)).toThrow(RangeError);
+
+    const future = buffer.slice(0);
+    new Uint32Array(future, 4, 1)[0] += 1;
+    expect(() => ProfanityBuster.fromCompiled(future, config)).toThrow(/format version/);
+    expect(() => ProfanityBuster.fromCompiled(buffer.slice(0, 64), config)).toThrow(
+      /truncated or corrupt/,
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { Readable } from 'node:stream';
+
+import { describe, expect, it } from 'vitest';
+
+import { integrations, ProfanityBuster, type ProfanityBusterUserConfig } from '../src';
+import { createSanitizerTransform } from '../src/node';
+
+function config(
+  overrides: Partial<ProfanityBusterUserConfig['detection']> = {},
+): ProfanityBusterUserConfig {
+  return {
+    languages: ['en'],
+    detection: {
+      customWords: [],
+      levenshteinDistance: 0,
+      caseSensitive: false,
+      wholeWordsOnly: false,
+      ...overrides,
+    },
+  };
+}
+
+function streamed(buster: ProfanityBuster, chunks: string[]): { outputs: string[]; text: string } {
+  const sanitizer = buster.createStreamSanitizer();
+  const outputs = chunks.map((chunk) => sanitizer.write(chunk));
+  outputs.push(sanitizer.end());
+  return { outputs, text: outputs.join('') };
+}
+
+describe('Streaming sanitizer', () => {
+  it('masks words split across chunks and matches sanitize() on the joined text', () => {
+    const buster = new ProfanityBuster(config());
+    const chunks = ['what the fu', 'ck, you b', 'itch', ' go away'];
+    const { text } = streamed(buster, chunks);
+    expect(text).toBe(buster.sanitize(chunks.join('')));
+    expect(text).not.toMatch(/fuck|bitch/);
+  });
+
+  it('completes substitution sequences split across chunks', () => {
+    const buster = new ProfanityBuster(config());
+    const chunks = ['you fuc|', '<er and |', '-|ell'];
+    const { text } = streamed(buster, chunks);
+    expect(text).toBe(buster.sanitize(chunks.join('')));
+    expect(text).toBe('you f****** and |*****');
+  });
+
+  it('emits safe text immediately and holds back only a possible match prefix', () => {
+    const buster = new ProfanityBuster(config());
+    const { outputs } = streamed(buster, ['hello there ', 'sh', 'it happens']);
+    // Only a tail that may still start a dictionary entry is held back
+    expect(outputs[0]).toMatch(/^hello th/);
+    expect(outputs[1]).not.toContain('sh');
+    expect(outputs.join('')).toBe(buster.sanitize('hello there shit happens'));
+  });
+
+  it('applies the allowlist, whole-word mode and separators across chunks', () => {
+    const allowlisted = new ProfanityBuster(config());
+    expect(streamed(allowlisted, ['a cl', 'ass', 'ic ass']).text).toBe(
+      allowlisted.sanitize('a classic ass'),
+    );
+
+    const whole = new ProfanityBuster(config({ wholeWordsOnly: true }));
+    expect(streamed(whole, ['shit', 'ake and shit', '']).text).toBe(
+      whole.sanitize('shitake and shit'),
+    );
+
+    const separated = new ProfanityBuster(config({ ignoreSeparators: ['.'] }));
+    expect(streamed(separated, ['f.u', '.c.', 'k!']).text).toBe(separated.sanitize('f.u.c.k!'));
+
+    const spaced = new ProfanityBuster(config());
+    const chunks = ['my gla', 'ss ho', 'le, f u', ' c', ' k', ' and s h i', 'ting'];
+    const { text } = streamed(spaced, chunks);
+    expect(text).toBe(spaced.sanitize(chunks.join('')));
+    expect(text).toBe('my glass hole, f****** and s h iting');
+  });
+
+  it('holds back encoded characters split across chunks', () => {
+    const buster = new ProfanityBuster(
+      config({ decoding: { htmlEntities: true, percentEncoding: true } }),
+    );
+    const chunks = ['x &#1', '02;&#11', '7;ck %6', '6uck %C3', '%A9'];
+    const { text } = streamed(buster, chunks);
+    expect(text).toBe(buster.sanitize(chunks.join('')));
+    expect(text).toBe('x &************* %***** %C3%A9');
+  });
+
+  it('adapts AsyncIterable, WHATWG TransformStream and Node Transform', async () => {
+    const buster = new ProfanityBuster(config());
+    const chunks = ['oh fu', 'ck', ' me'];
+    const expected = buster.sanitize(chunks.join(''));
+
+    let fromIterable = '';
+    for await (const out of integrations.sanitizeAsyncIterable(buster, chunks)) fromIterable += out;
+    expect(fromIterable).toBe(expected);
+
+    const source = new ReadableStream<string>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(chunk);
+        controller.close();
+      },
+    });
+    const web = source.pipeThrough(integrations.createSanitizerTransformStream(buster));
+    let fromWeb = '';
+    const reader = web.getReader();
+    for (let r = await reader.read(); !r.done; r = await reader.read()) fromWeb += r.value;
+    expect(fromWeb).toBe(expected);
+
+    // Split a multi-byte character across Buffer chunks too
+    const bytes = Buffer.from(`${chunks.join('')} \u2615`);
+    const node = Readable.from([
+      bytes.subarray(0, 5),
+      bytes.subarray(5, bytes.length - 1),
+      bytes.subarray(bytes.length - 1),
+    ]).pipe(createSanitizerTransform(buster));
+    let fromNode = '';
+    for await (const out of node) fromNode += out;
+    expect(fromNode).toBe(`${expected} \u2615`);
+  });
+});
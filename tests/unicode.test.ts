@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProfanityBuster } from '../src';
+import { splitGraphemes } from '../src/core/unicode';
+
+describe('Astral characters and grapheme clusters', () => {
+  for (const algorithm of ['trie', 'aho', 'compact'] as const) {
+    it(`matches supplementary-plane entries with ${algorithm}`, () => {
+      const buster = new ProfanityBuster({
+        masking: {
+          enabled: true,
+          pattern: '#',
+          preserveLength: true,
+          preserveFirst: false,
+          preserveLast: false,
+        },
+        detection: {
+          algorithm,
+          customWords: ['🖕', '𠀀𠀁', 'f🍆k'],
+          levenshteinDistance: 0,
+          caseSensitive: false,
+          wholeWordsOnly: true,
+        },
+      });
+      // lengths are UTF-16 code units
+      expect(buster.detect('hey 🖕 you').matches[0]).toMatchObject({ index: 4, length: 2 });
+      expect(buster.detect('a 𠀀𠀁 b').matches[0]).toMatchObject({ index: 2, length: 4 });
+      // astral letters count as word characters for whole-word checks
+      expect(buster.detect('x𠀀𠀁').hasProfanity).toBe(false);
+      // masking replaces one pattern character per grapheme
+      expect(buster.sanitize('a f 🍆 k b')).toBe('a ##### b');
+      expect(buster.sanitize('a 𠀀𠀁 b')).toBe('a ## b');
+    });
+  }
+
+  it('splits emoji sequences, flags and combining marks as single graphemes', () => {
+    expect(splitGraphemes('a👍🏽🇫🇷é👨‍👩‍👧')).toEqual(['a', '👍🏽', '🇫🇷', 'é', '👨‍👩‍👧']);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+
+import { ProfanityBuster, type ProfanityBusterUserConfig } from '../src';
+import {
+  createBatchHandler,
+  ProfanityWorkerPool,
+  type BatchResponse,
+  type PoolWorker,
+} from '../src/node';
+
+const config: ProfanityBusterUserConfig = {
+  languages: ['en'],
+  detection: {
+    customWords: [],
+    levenshteinDistance: 0,
+    caseSensitive: false,
+    wholeWordsOnly: false,
+  },
+};
+
+// Runs the worker handler in-process with jittered replies, so batches finish out of order
+function inProcess(started: { count: number }): (cfg?: ProfanityBusterUserConfig) => PoolWorker {
+  return (cfg) => {
+    started.count += 1;
+    const handle = createBatchHandler(cfg);
+    const listeners: ((response: BatchResponse) => void)[] = [];
+    return {
+      postMessage(request) {
+        setTimeout(
+          () => void handle(request).then((r) => listeners.forEach((l) => l(r))),
+          Math.random() * 5,
+        );
+      },
+      on(event: string, listener: (value: never) => void) {
+        if (event === 'message') listeners.push(listener as (response: BatchResponse) => void);
+      },
+      terminate() {},
+    };
+  };
+}
+
+// A worker that exits without an error (process.exit() in user code) on its first batch
+function exitingOnce(started: { count: number }): (cfg?: ProfanityBusterUserConfig) => PoolWorker {
+  const healthy = inProcess(started);
+  let exited = false;
+  return (cfg) => {
+    if (exited) return healthy(cfg);
+    exited = true;
+    started.count += 1;
+    const onExit: ((exitCode: number) => void)[] = [];
+    return {
+      postMessage() {
+        setTimeout(() => onExit.forEach((l) => l(0)), 1);
+      },
+      on(event: string, listener: (value: never) => void) {
+        if (event === 'exit') onExit.push(listener as (exitCode: number) => void);
+      },
+      terminate() {},
+    };
+  };
+}
+
+const texts = Array.from({ length: 40 }, (_, i) =>
+  i % 3 === 0 ? `comment ${i} is shit` : `comment ${i} is fine`,
+);
+
+describe('Worker pool', () => {
+  it('keeps input order and matches single-threaded results', async () => {
+    const started = { count: 0 };
+    const pool = new ProfanityWorkerPool(config, {
+      size: 3,
+      batchSize: 4,
+      spawn: inProcess(started),
+    });
+    const buster = new ProfanityBuster(config);
+    expect(started.count).toBe(3);
+    expect(await pool.detectMany(texts)).toEqual(texts.map((t) => buster.detect(t)));
+    expect(await pool.sanitizeMany(texts)).toEqual(texts.map((t) => buster.sanitize(t)));
+    await pool.close();
+    await expect(pool.detectMany(texts)).rejects.toThrow('closed');
+  });
+
+  it('fails the running batches of a worker that exits and replaces it', async () => {
+    const started = { count: 0 };
+    const pool = new ProfanityWorkerPool(config, { size: 1, spawn: exitingOnce(started) });
+    await expect(pool.detectMany(texts)).rejects.toThrow('worker exited with code 0');
+    expect(started.count).toBe(2);
+    expect(await pool.sanitizeMany(['oh shit'])).toEqual(['oh s***']);
+    await pool.close();
+  });
+
+  it('reads input only as fast as results are consumed', async () => {
+    const pool = new ProfanityWorkerPool(config, {
+      size: 2,
+      batchSize: 2,
+      maxQueuedPerWorker: 1,
+      spawn: inProcess({ count: 0 }),
+    });
+    let pulled = 0;
+    function* source(): Generator<string> {
+      for (const t of texts) {
+        pulled += 1;
+        yield t;
+      }
+    }
+    const results = pool.sanitizeEach(source());
+    await results.next();
+    // 2 workers x (1 running + 1 queued) batches of 2, plus the batch being refilled
+    expect(pulled).toBeLessThanOrEqual(10);
+    await results.return(undefined);
+    await pool.close();
+  });
+
+  it('rejects and stops reading when the signal aborts', async () => {
+    const pool = new ProfanityWorkerPool(config, {
+      size: 1,
+      batchSize: 1,
+      spawn: inProcess({ count: 0 }),
+    });
+    const controller = new AbortController();
+    let pulled = 0;
+    async function* source(): AsyncGenerator<string> {
+      for (const t of texts) {
+        pulled += 1;
+        if (pulled === 3) controller.abort(new Error('cancelled by caller'));
+        yield t;
+      }
+    }
+    await expect(pool.detectMany(source(), { signal: controller.signal })).rejects.toThrow(
+      'cancelled by caller',
+    );
+    expect(pulled).toBeLessThan(texts.length);
+    await pool.close();
+  });
+});